@@ -0,0 +1,30 @@
+const js = require('@eslint/js')
+const globals = require('globals')
+const prettier = require('eslint-config-prettier')
+const tseslint = require('typescript-eslint')
+
+module.exports = tseslint.config(
+  { ignores: ['dist/', 'webasm_bincode_deserializer/'] },
+  js.configs.recommended,
+  ...tseslint.configs.recommended,
+  prettier,
+  {
+    languageOptions: {
+      globals: globals.node,
+    },
+    rules: {
+      // Task state and task node payloads are still loosely typed
+      '@typescript-eslint/no-explicit-any': 'warn',
+      '@typescript-eslint/no-unused-vars': ['error', { caughtErrors: 'none' }],
+      // Needed for the Express Request augmentation
+      '@typescript-eslint/no-namespace': ['error', { allowDeclarations: true }],
+    },
+  },
+  {
+    files: ['**/*.js'],
+    languageOptions: { sourceType: 'commonjs' },
+    rules: {
+      '@typescript-eslint/no-require-imports': 'off',
+    },
+  },
+)
@@ -0,0 +1,137 @@
+import { createHash } from 'crypto'
+import { AuditTriggerState, Submission } from './types'
+import { PeerReputation, reputationScore } from './reputation'
+
+export interface SamplingContext {
+  round: number
+  // Candidates in submission order, this node excluded
+  candidates: string[]
+  submissions: Record<string, Submission>
+  auditTriggers: Record<string, AuditTriggerState>
+  selfPublicKey: string
+  getStakeList(): Promise<Record<string, number>>
+  getPeerReputation(publicKey: string): Promise<PeerReputation>
+}
+
+export type SamplingStrategy = (
+  context: SamplingContext,
+) => string[] | Promise<string[]>
+
+/**
+ * Deterministic numbers in [0, 1) from a seed, so every run of the same
+ * node in the same round samples the same candidates
+ */
+export function seededRandom(seed: string): () => number {
+  let counter = 0
+  return () => {
+    const digest = createHash('sha256').update(`${seed}:${counter++}`).digest()
+    return digest.readUIntBE(0, 6) / 2 ** 48
+  }
+}
+
+function roundSeed(context: SamplingContext): string {
+  return `${context.round}:${context.selfPublicKey}`
+}
+
+export const SamplingStrategies = {
+  all(): SamplingStrategy {
+    return (context) => [...context.candidates]
+  },
+
+  // Uniform sample with Math.random, the behaviour of useRandomSampling
+  random(sampleSize = 5): SamplingStrategy {
+    return (context) => {
+      const pool = [...context.candidates]
+      const picked: string[] = []
+      while (picked.length < sampleSize && pool.length > 0) {
+        picked.push(pool.splice(Math.floor(Math.random() * pool.length), 1)[0])
+      }
+      return picked
+    }
+  },
+
+  // Uniform sample seeded by round and this node's public key
+  deterministic(sampleSize = 5): SamplingStrategy {
+    return (context) => {
+      const random = seededRandom(roundSeed(context))
+      const pool = [...context.candidates].sort()
+      const picked: string[] = []
+      while (picked.length < sampleSize && pool.length > 0) {
+        picked.push(pool.splice(Math.floor(random() * pool.length), 1)[0])
+      }
+      return picked
+    }
+  },
+
+  /**
+   * Seeded sample without replacement where the chance of being picked
+   * grows with stake (Efraimidis-Spirakis keys). Candidates with no stake
+   * are only picked once every staked candidate is.
+   */
+  stakeWeighted(sampleSize = 5): SamplingStrategy {
+    return async (context) => {
+      const stakeList = await context.getStakeList()
+      const random = seededRandom(roundSeed(context))
+      return [...context.candidates]
+        .sort()
+        .map((candidate) => {
+          const stake = stakeList[candidate] || 0
+          const u = random()
+          return {
+            candidate,
+            key: stake > 0 ? Math.log(u) / stake : -Infinity,
+          }
+        })
+        .sort((a, b) => b.key - a.key)
+        .slice(0, sampleSize)
+        .map(({ candidate }) => candidate)
+    }
+  },
+
+  /**
+   * Candidates that already have an audit trigger come first, the rest of
+   * the sample comes from `base`
+   */
+  prioritizeTriggered(
+    base: SamplingStrategy,
+    sampleSize = Infinity,
+  ): SamplingStrategy {
+    return async (context) => {
+      const triggered = context.candidates.filter(
+        (candidate) => context.auditTriggers[candidate],
+      )
+      const picked = [...triggered]
+      for (const candidate of await base(context)) {
+        if (!picked.includes(candidate)) picked.push(candidate)
+      }
+      return picked.slice(0, Math.max(sampleSize, triggered.length))
+    }
+  },
+
+  /**
+   * Candidates whose reputation score is below `maxScore` come first, worst
+   * first, the rest of the sample comes from `base`
+   */
+  prioritizeOffenders(
+    base: SamplingStrategy,
+    sampleSize = 5,
+    maxScore = 0.8,
+  ): SamplingStrategy {
+    return async (context) => {
+      const scored = await Promise.all(
+        context.candidates.map(async (candidate) => ({
+          candidate,
+          score: reputationScore(await context.getPeerReputation(candidate)),
+        })),
+      )
+      const picked = scored
+        .filter(({ score }) => score < maxScore)
+        .sort((a, b) => a.score - b.score)
+        .map(({ candidate }) => candidate)
+      for (const candidate of await base(context)) {
+        if (!picked.includes(candidate)) picked.push(candidate)
+      }
+      return picked.slice(0, sampleSize)
+    }
+  },
+}
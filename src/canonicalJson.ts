@@ -0,0 +1,89 @@
+import { createHash } from 'crypto'
+
+// 'legacy' is plain JSON.stringify, kept while nodes are upgraded
+export type JsonSerialization = 'canonical' | 'legacy'
+
+export const JSON_SERIALIZATIONS: readonly JsonSerialization[] = [
+  'canonical',
+  'legacy',
+]
+
+function serialize(value: unknown, ancestors: object[]): string | undefined {
+  if (value !== null && typeof value === 'object') {
+    const toJSON = (value as { toJSON?: () => unknown }).toJSON
+    if (typeof toJSON === 'function') value = toJSON.call(value)
+  }
+  switch (typeof value) {
+    case 'string':
+    case 'boolean':
+      return JSON.stringify(value)
+    case 'number':
+      if (!Number.isFinite(value)) {
+        throw new TypeError(`Cannot serialize ${value} as canonical JSON`)
+      }
+      // Number formatting is already the shortest round-trip form, -0 is 0
+      return JSON.stringify(value)
+    case 'bigint':
+      throw new TypeError('Cannot serialize a BigInt as canonical JSON')
+    case 'undefined':
+    case 'function':
+    case 'symbol':
+      return undefined
+  }
+  if (value === null) return 'null'
+
+  const object = value as object
+  if (ancestors.includes(object)) {
+    throw new TypeError('Cannot serialize a circular structure as JSON')
+  }
+  ancestors.push(object)
+  let json: string
+  if (Array.isArray(object)) {
+    const items = object.map((item) => serialize(item, ancestors) ?? 'null')
+    json = `[${items.join(',')}]`
+  } else {
+    const members: string[] = []
+    for (const key of Object.keys(object).sort()) {
+      const member = serialize((object as any)[key], ancestors)
+      if (member === undefined) continue
+      members.push(`${JSON.stringify(key)}:${member}`)
+    }
+    json = `{${members.join(',')}}`
+  }
+  ancestors.pop()
+  return json
+}
+
+/**
+ * JSON with object keys sorted by UTF-16 code units, no whitespace and no
+ * undefined members, so equal values always give the same string whatever
+ * order their keys were set in. Numbers use the shortest form that reads back
+ * the same, and NaN and Infinity are refused.
+ * @throws TypeError for undefined, NaN, Infinity, BigInt and circular values
+ */
+export function canonicalStringify(value: unknown): string {
+  const json = serialize(value, [])
+  if (json === undefined) {
+    throw new TypeError(`Cannot serialize ${typeof value} as canonical JSON`)
+  }
+  return json
+}
+
+// Serializes for hashing and signing, canonically unless `legacy` is chosen
+export function stringifyForSigning(
+  value: unknown,
+  serialization: JsonSerialization = 'canonical',
+): string {
+  return serialization === 'legacy'
+    ? JSON.stringify(value)
+    : canonicalStringify(value)
+}
+
+export function hashJson(
+  value: unknown,
+  serialization: JsonSerialization = 'canonical',
+): string {
+  return createHash('sha256')
+    .update(stringifyForSigning(value, serialization))
+    .digest('hex')
+}
@@ -0,0 +1,220 @@
+import { createHash } from 'crypto'
+import bs58 from 'bs58'
+
+export const CODEC_RAW = 0x55
+export const CODEC_DAG_PB = 0x70
+const HASH_SHA2_256 = 0x12
+// Largest file kubo stores in a single block with default chunking
+const DEFAULT_CHUNK_SIZE = 262144
+
+export interface ParsedCid {
+  version: 0 | 1
+  codec: number
+  hashCode: number
+  digest: Uint8Array
+}
+
+export interface DagPbLink {
+  cid: ParsedCid | null
+  name: string
+}
+
+export interface DagPbNode {
+  links: DagPbLink[]
+  data: Uint8Array | null
+}
+
+export interface UnixFsData {
+  type: number
+  data: Uint8Array
+}
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567'
+
+function decodeBase32(input: string): Uint8Array {
+  const bytes: number[] = []
+  let buffer = 0
+  let bits = 0
+  for (const char of input.toLowerCase()) {
+    const value = BASE32_ALPHABET.indexOf(char)
+    if (value === -1) throw new Error(`Invalid base32 character "${char}"`)
+    buffer = (buffer << 5) | value
+    bits += 5
+    if (bits >= 8) {
+      bits -= 8
+      bytes.push((buffer >> bits) & 0xff)
+    }
+  }
+  return Uint8Array.from(bytes)
+}
+
+// Reads protobuf style varints and length-delimited fields
+class ByteReader {
+  offset = 0
+
+  constructor(private bytes: Uint8Array) {}
+
+  done(): boolean {
+    return this.offset >= this.bytes.length
+  }
+
+  varint(): number {
+    let result = 0
+    let shift = 0
+    for (;;) {
+      if (this.done()) throw new Error('Unexpected end of varint')
+      const byte = this.bytes[this.offset++]
+      result += (byte & 0x7f) * 2 ** shift
+      if ((byte & 0x80) === 0) return result
+      shift += 7
+    }
+  }
+
+  take(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error('Unexpected end of data')
+    }
+    const slice = this.bytes.subarray(this.offset, this.offset + length)
+    this.offset += length
+    return slice
+  }
+
+  // Yields [fieldNumber, value] for each field of a message
+  *fields(): Generator<[number, number | Uint8Array]> {
+    while (!this.done()) {
+      const tag = this.varint()
+      const wireType = tag & 0x7
+      const field = tag >>> 3
+      if (wireType === 0) yield [field, this.varint()]
+      else if (wireType === 2) yield [field, this.take(this.varint())]
+      else throw new Error(`Unsupported protobuf wire type ${wireType}`)
+    }
+  }
+}
+
+function encodeVarint(value: number): number[] {
+  const bytes: number[] = []
+  do {
+    let byte = value % 128
+    value = Math.floor(value / 128)
+    if (value > 0) byte |= 0x80
+    bytes.push(byte)
+  } while (value > 0)
+  return bytes
+}
+
+function parseMultihash(reader: ByteReader) {
+  const hashCode = reader.varint()
+  const digest = reader.take(reader.varint())
+  return { hashCode, digest }
+}
+
+// Binary CID as found in dag-pb links
+export function parseCidBytes(bytes: Uint8Array): ParsedCid {
+  if (bytes[0] === HASH_SHA2_256 && bytes[1] === 0x20 && bytes.length === 34) {
+    const reader = new ByteReader(bytes)
+    return { version: 0, codec: CODEC_DAG_PB, ...parseMultihash(reader) }
+  }
+  const reader = new ByteReader(bytes)
+  const version = reader.varint()
+  if (version !== 1) throw new Error(`Unsupported CID version ${version}`)
+  const codec = reader.varint()
+  return { version: 1, codec, ...parseMultihash(reader) }
+}
+
+// Parses CIDv0 and base32 or base58btc CIDv1 strings, null if malformed
+export function parseCid(cid: string): ParsedCid | null {
+  try {
+    if (cid.length === 46 && cid.startsWith('Qm')) {
+      return parseCidBytes(Uint8Array.from(bs58.decode(cid)))
+    }
+    if (cid.startsWith('b')) return parseCidBytes(decodeBase32(cid.slice(1)))
+    if (cid.startsWith('z')) {
+      return parseCidBytes(Uint8Array.from(bs58.decode(cid.slice(1))))
+    }
+  } catch (e) {
+    return null
+  }
+  return null
+}
+
+function sha256(bytes: Uint8Array): Buffer {
+  return createHash('sha256').update(bytes).digest()
+}
+
+// True if the block hashes to the CID's digest, null if the hash function is not supported
+export function blockMatchesCid(
+  cid: ParsedCid,
+  block: Uint8Array,
+): boolean | null {
+  if (cid.hashCode !== HASH_SHA2_256) return null
+  return sha256(block).equals(Buffer.from(cid.digest))
+}
+
+export function decodeDagPb(block: Uint8Array): DagPbNode {
+  const node: DagPbNode = { links: [], data: null }
+  for (const [field, value] of new ByteReader(block).fields()) {
+    if (field === 1 && value instanceof Uint8Array) node.data = value
+    if (field === 2 && value instanceof Uint8Array) {
+      const link: DagPbLink = { cid: null, name: '' }
+      for (const [linkField, linkValue] of new ByteReader(value).fields()) {
+        if (linkField === 1 && linkValue instanceof Uint8Array) {
+          link.cid = parseCidBytes(linkValue)
+        }
+        if (linkField === 2 && linkValue instanceof Uint8Array) {
+          link.name = Buffer.from(linkValue).toString('utf-8')
+        }
+      }
+      node.links.push(link)
+    }
+  }
+  return node
+}
+
+export function decodeUnixFs(data: Uint8Array): UnixFsData {
+  const result: UnixFsData = { type: 0, data: new Uint8Array() }
+  for (const [field, value] of new ByteReader(data).fields()) {
+    if (field === 1 && typeof value === 'number') result.type = value
+    if (field === 2 && value instanceof Uint8Array) result.data = value
+  }
+  return result
+}
+
+// The dag-pb block kubo produces for a file that fits in one chunk
+export function encodeSingleBlockFile(content: Uint8Array): Uint8Array | null {
+  if (content.length > DEFAULT_CHUNK_SIZE) return null
+  const unixfs = [0x08, 0x02]
+  if (content.length > 0) {
+    unixfs.push(0x12, ...encodeVarint(content.length), ...content)
+  }
+  unixfs.push(0x18, ...encodeVarint(content.length))
+  return Uint8Array.from([0x0a, ...encodeVarint(unixfs.length), ...unixfs])
+}
+
+function encodeBase32(bytes: Uint8Array): string {
+  let output = ''
+  let buffer = 0
+  let bits = 0
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      bits -= 5
+      output += BASE32_ALPHABET[(buffer >> bits) & 0x1f]
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(buffer << (5 - bits)) & 0x1f]
+  return output
+}
+
+// CIDv0 in base58btc, CIDv1 in base32 as gateways expect
+export function formatCid(cid: ParsedCid): string {
+  const multihash = [
+    ...encodeVarint(cid.hashCode),
+    ...encodeVarint(cid.digest.length),
+    ...cid.digest,
+  ]
+  if (cid.version === 0) return bs58.encode(Buffer.from(multihash))
+  const bytes = [...encodeVarint(1), ...encodeVarint(cid.codec), ...multihash]
+  return `b${encodeBase32(Uint8Array.from(bytes))}`
+}
@@ -0,0 +1,365 @@
+import { readFileSync } from 'fs'
+import { StorageType } from './types'
+import { STORAGE_TYPES } from './storage'
+import { LOGGER_LEVELS, LoggerLevel } from './logger'
+import { JSON_SERIALIZATIONS, JsonSerialization } from './canonicalJson'
+
+export interface WrapperConfig {
+  taskName: string
+  // Set when the task runs under a task node, undefined in local mode
+  taskId: string | undefined
+  expressPort: number
+  mainAccountPubkey: string
+  secretKey: string
+  k2NodeUrl: string
+  serviceUrl: string
+  stake: number
+  taskNodePort: number
+  storageBackend: StorageType
+  stakingWalletPath: string | undefined
+  logLevel: LoggerLevel
+  logFormat: 'text' | 'json'
+  logFile: string | undefined
+  ipfsLocalDir: string | undefined
+  // `template|blockTemplate` entries, the built-in gateways when undefined
+  ipfsGateways: ReadonlyArray<readonly [string, string?]> | undefined
+  ipfsCacheDir: string | undefined
+  // Origins allowed to call the task server from a browser, any when undefined
+  corsOrigins: ReadonlyArray<string> | undefined
+  // How objects are serialized before hashing and signing, see canonicalJson
+  jsonSerialization: JsonSerialization
+  // Accept submission files signed before envelopes were versioned, which
+  // can be replayed in any round or task
+  acceptLegacySubmissions: boolean
+}
+
+export interface LoadConfigOptions {
+  argv?: string[]
+  env?: Record<string, string | undefined>
+  // Take precedence over every other source and are validated the same way
+  overrides?: Partial<WrapperConfig>
+}
+
+export class ConfigError extends Error {
+  constructor(public problems: string[]) {
+    super(
+      `Invalid configuration:\n${problems.map((p) => `  - ${p}`).join('\n')}`,
+    )
+    this.name = 'ConfigError'
+  }
+}
+
+type FieldType =
+  'string' | 'port' | 'number' | 'boolean' | 'url' | 'gateways' | 'list'
+
+interface FieldSpec {
+  type: FieldType
+  // Prefixed with KOII_ so unrelated variables such as TASK_ID are not
+  // picked up, the unprefixed names are the ones the wrapper always read
+  env: string[]
+  // Index in the positional arguments the task node passes after the script
+  position?: number
+  values?: readonly string[]
+  default?: unknown
+}
+
+type ConfigKey = keyof WrapperConfig
+
+/**
+ * Positional arguments, as passed by the task node, are
+ * `taskName taskId expressPort <unused> mainAccountPubkey secretKey
+ * k2NodeUrl serviceUrl stake taskNodePort`
+ */
+const FIELDS: Record<ConfigKey, FieldSpec> = {
+  taskName: {
+    type: 'string',
+    env: ['KOII_TASK_NAME'],
+    position: 0,
+    default: 'Local',
+  },
+  taskId: { type: 'string', env: ['KOII_TASK_ID'], position: 1 },
+  expressPort: {
+    type: 'port',
+    env: ['KOII_EXPRESS_PORT'],
+    position: 2,
+    default: 3000,
+  },
+  mainAccountPubkey: {
+    type: 'string',
+    env: ['KOII_MAIN_ACCOUNT_PUBKEY'],
+    position: 4,
+    default: '',
+  },
+  secretKey: {
+    type: 'string',
+    env: ['KOII_SECRET_KEY'],
+    position: 5,
+    default: '',
+  },
+  k2NodeUrl: {
+    type: 'url',
+    env: ['KOII_K2_NODE_URL', 'K2_URL'],
+    position: 6,
+    default: 'https://testnet.koii.network',
+  },
+  serviceUrl: {
+    type: 'string',
+    env: ['KOII_SERVICE_URL'],
+    position: 7,
+    default: '',
+  },
+  stake: { type: 'number', env: ['KOII_STAKE'], position: 8, default: 0 },
+  taskNodePort: {
+    type: 'port',
+    env: ['KOII_TASK_NODE_PORT'],
+    position: 9,
+    default: 0,
+  },
+  storageBackend: {
+    type: 'string',
+    env: ['KOII_STORAGE_BACKEND'],
+    values: STORAGE_TYPES,
+    default: 'nedb',
+  },
+  stakingWalletPath: {
+    type: 'string',
+    env: ['KOII_STAKING_WALLET_PATH', 'STAKING_WALLET_PATH'],
+  },
+  logLevel: {
+    type: 'string',
+    env: ['KOII_LOG_LEVEL'],
+    values: Object.keys(LOGGER_LEVELS),
+    default: 'info',
+  },
+  logFormat: {
+    type: 'string',
+    env: ['KOII_LOG_FORMAT'],
+    values: ['text', 'json'],
+    default: 'text',
+  },
+  logFile: { type: 'string', env: ['KOII_LOG_FILE'] },
+  ipfsLocalDir: { type: 'string', env: ['KOII_IPFS_LOCAL_DIR'] },
+  ipfsGateways: { type: 'gateways', env: ['KOII_IPFS_GATEWAYS'] },
+  ipfsCacheDir: { type: 'string', env: ['KOII_IPFS_CACHE_DIR'] },
+  corsOrigins: { type: 'list', env: ['KOII_CORS_ORIGINS'] },
+  jsonSerialization: {
+    type: 'string',
+    env: ['KOII_JSON_SERIALIZATION'],
+    values: JSON_SERIALIZATIONS,
+    default: 'canonical',
+  },
+  acceptLegacySubmissions: {
+    type: 'boolean',
+    env: ['KOII_ACCEPT_LEGACY_SUBMISSIONS'],
+    default: false,
+  },
+}
+
+function toFlag(key: string): string {
+  return key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)
+}
+
+// Older task nodes passed values wrapped in quotes
+function unquote(value: string): string {
+  const match = /^(["'])(.*)\1$/.exec(value.trim())
+  return match ? match[2] : value.trim()
+}
+
+const FLAGS = new Set(['config', ...Object.keys(FIELDS).map(toFlag)])
+
+// Unknown flags are skipped with their value, they may belong to the task's
+// own CLI
+function parseArgs(argv: string[]): {
+  flags: Record<string, string>
+  positional: string[]
+} {
+  const flags: Record<string, string> = {}
+  const positional: string[] = []
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (!arg.startsWith('--')) {
+      positional.push(arg)
+      continue
+    }
+    const eq = arg.indexOf('=')
+    const name = eq === -1 ? arg.slice(2) : arg.slice(2, eq)
+    let value = ''
+    if (eq !== -1) {
+      value = arg.slice(eq + 1)
+    } else if (i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+      value = argv[++i]
+    }
+    if (FLAGS.has(name)) flags[name] = value
+  }
+  return { flags, positional }
+}
+
+function readConfigFile(path: string): Record<string, unknown> {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(readFileSync(path, 'utf-8'))
+  } catch (e) {
+    throw new ConfigError([
+      `Cannot read config file ${path}: ${e instanceof Error ? e.message : e}`,
+    ])
+  }
+  if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new ConfigError([`Config file ${path} must contain a JSON object`])
+  }
+  return parsed as Record<string, unknown>
+}
+
+function parseGateways(
+  value: unknown,
+): Array<readonly [string, string?]> | null {
+  const entries = typeof value === 'string' ? value.split(',') : value
+  if (!Array.isArray(entries)) return null
+  const gateways: Array<readonly [string, string?]> = []
+  for (const entry of entries) {
+    // Either a `template|blockTemplate` string or a [template, blockTemplate] pair
+    const [template, blockTemplate] =
+      typeof entry === 'string' ? entry.trim().split('|') : entry
+    if (typeof template !== 'string') return null
+    if (blockTemplate !== undefined && typeof blockTemplate !== 'string') {
+      return null
+    }
+    if (template === '') continue
+    gateways.push(
+      Object.freeze(blockTemplate ? [template, blockTemplate] : [template]),
+    )
+  }
+  return gateways
+}
+
+function convert(
+  key: string,
+  spec: FieldSpec,
+  raw: unknown,
+  source: string,
+  problems: string[],
+): unknown {
+  const fail = (expected: string) => {
+    problems.push(
+      `${key} from ${source} must be ${expected}, got ${JSON.stringify(raw)}`,
+    )
+    return undefined
+  }
+  const text = typeof raw === 'string' ? unquote(raw) : raw
+  switch (spec.type) {
+    case 'string': {
+      if (typeof text !== 'string') return fail('a string')
+      if (spec.values && !spec.values.includes(text)) {
+        return fail(`one of ${spec.values.join(', ')}`)
+      }
+      return text
+    }
+    case 'number': {
+      const n = typeof text === 'number' ? text : Number(text)
+      if (text === '' || !Number.isFinite(n) || n < 0) {
+        return fail('a non-negative number')
+      }
+      return n
+    }
+    case 'boolean': {
+      if (typeof text === 'boolean') return text
+      if (text === 'true' || text === '1') return true
+      if (text === 'false' || text === '0') return false
+      return fail('true or false')
+    }
+    case 'port': {
+      const n = typeof text === 'number' ? text : Number(text)
+      if (text === '' || !Number.isInteger(n) || n < 0 || n > 65535) {
+        return fail('a port between 0 and 65535')
+      }
+      return n
+    }
+    case 'url': {
+      if (typeof text !== 'string') return fail('an http(s) URL')
+      try {
+        const url = new URL(text)
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+          return fail('an http(s) URL')
+        }
+      } catch (e) {
+        return fail('an http(s) URL')
+      }
+      return text
+    }
+    case 'list': {
+      const items = typeof text === 'string' ? text.split(',') : text
+      if (
+        !Array.isArray(items) ||
+        !items.every((item) => typeof item === 'string')
+      ) {
+        return fail('a comma separated list')
+      }
+      return Object.freeze(
+        items.map((item) => item.trim()).filter((item) => item !== ''),
+      )
+    }
+    case 'gateways': {
+      const gateways = parseGateways(text)
+      if (!gateways) return fail('`template|blockTemplate` entries')
+      return Object.freeze(gateways)
+    }
+  }
+}
+
+/**
+ * Builds the wrapper configuration. For each setting the first source that
+ * has it wins: `--kebab-case` flags, positional arguments, environment
+ * variables, the JSON config file named by `--config` or KOII_TASK_CONFIG,
+ * and the defaults. Environment variables are prefixed with KOII_.
+ * @throws ConfigError listing every problem found
+ */
+export function loadConfig(options: LoadConfigOptions = {}): WrapperConfig {
+  const argv = options.argv ?? process.argv.slice(2)
+  const env = options.env ?? process.env
+  const overrides: Record<string, unknown> = options.overrides ?? {}
+  const { flags, positional } = parseArgs(argv)
+  const configPath = flags['config'] ?? env.KOII_TASK_CONFIG
+  const file = configPath ? readConfigFile(configPath) : {}
+
+  const problems: string[] = []
+  for (const [flag, value] of Object.entries(flags)) {
+    if (value === '') problems.push(`--${flag} needs a value`)
+  }
+  for (const key of Object.keys(file)) {
+    if (!(key in FIELDS)) problems.push(`Unknown key ${key} in ${configPath}`)
+  }
+  for (const key of Object.keys(overrides)) {
+    if (!(key in FIELDS)) problems.push(`Unknown key ${key} in options`)
+  }
+
+  const config: Record<string, unknown> = {}
+  for (const [key, spec] of Object.entries(FIELDS)) {
+    const candidates: Array<[string, unknown]> = [
+      ['options', overrides[key]],
+      [`--${toFlag(key)}`, flags[toFlag(key)]],
+      [
+        `positional argument ${(spec.position ?? -1) + 1}`,
+        spec.position === undefined ? undefined : positional[spec.position],
+      ],
+      ...spec.env.map((name): [string, unknown] => [name, env[name]]),
+      [configPath ?? 'config file', file[key]],
+    ]
+    const found = candidates.find(
+      ([, value]) => value !== undefined && value !== '',
+    )
+    config[key] = found
+      ? convert(key, spec, found[1], found[0], problems)
+      : spec.default
+  }
+
+  if (config.taskId) {
+    if (!config.secretKey) {
+      problems.push('secretKey is required when running under a task node')
+    }
+    if (!config.taskNodePort) {
+      problems.push('taskNodePort is required when running under a task node')
+    }
+  }
+
+  if (problems.length > 0) throw new ConfigError(problems)
+  return Object.freeze(config) as unknown as WrapperConfig
+}
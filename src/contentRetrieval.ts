@@ -0,0 +1,392 @@
+import { promises as fsPromises } from 'fs'
+import path from 'path'
+import {
+  CODEC_DAG_PB,
+  CODEC_RAW,
+  ParsedCid,
+  blockMatchesCid,
+  decodeDagPb,
+  decodeUnixFs,
+  encodeSingleBlockFile,
+  formatCid,
+  parseCid,
+} from './cid'
+import { Logger } from './logger'
+import {
+  MetricsRegistry,
+  WrapperMetrics,
+  createWrapperMetrics,
+} from './metrics'
+
+export interface ContentProvider {
+  name: string
+  // Content is used without checking it against its CID, for sources the
+  // operator controls such as a local directory
+  trusted?: boolean
+  fetch(cid: string, fileName: string, signal: AbortSignal): Promise<Uint8Array>
+  // Raw IPFS block for a CID, lets the retriever check wrapped files
+  fetchBlock?(cid: string, signal: AbortSignal): Promise<Uint8Array>
+}
+
+export type VerificationResult = 'verified' | 'unverifiable' | 'mismatch'
+
+export interface ContentRetrieverOptions {
+  providers?: ContentProvider[]
+  // How many providers are queried at the same time
+  concurrency?: number
+  // Per request timeout in milliseconds
+  timeout?: number
+  // Directory for the on-disk cache, no caching when null
+  cacheDir?: string | null
+  // Reject content that cannot be checked against its CID, instead of using
+  // it when no provider returns content that can be
+  requireVerification?: boolean
+  // Registry gateway failures are counted on, a new one by default
+  metrics?: MetricsRegistry
+  logger?: Logger
+}
+
+// `${root}/${cid}/${fileName}`, null when the CID is malformed or the file
+// name leads out of the CID's directory
+function contentPath(root: string, cid: string, fileName: string) {
+  if (!parseCid(cid)) return null
+  const directory = path.join(root, cid)
+  const file = path.join(directory, fileName)
+  const relative = path.relative(directory, file)
+  if (relative.startsWith('..') || path.isAbsolute(relative)) return null
+  return file
+}
+
+function fillTemplate(template: string, cid: string, fileName = ''): string {
+  return template.replace(/{cid}/g, cid).replace(/{fileName}/g, fileName)
+}
+
+async function fetchBytes(
+  url: string,
+  signal: AbortSignal,
+): Promise<Uint8Array> {
+  const response = await fetch(url, { signal })
+  if (!response.ok) throw new Error(`HTTP ${response.status} from ${url}`)
+  return new Uint8Array(await response.arrayBuffer())
+}
+
+/**
+ * HTTP gateway described by URL templates with `{cid}` and `{fileName}`
+ * placeholders. `blockTemplate` points at the gateway's raw block endpoint
+ * (`?format=raw`) when it has one.
+ */
+export class HttpGatewayProvider implements ContentProvider {
+  name: string
+  fetchBlock?: (cid: string, signal: AbortSignal) => Promise<Uint8Array>
+  private template: string
+
+  constructor(template: string, blockTemplate?: string) {
+    this.name = template
+    this.template = template
+    if (blockTemplate) {
+      this.fetchBlock = (cid, signal) =>
+        fetchBytes(fillTemplate(blockTemplate, cid), signal)
+    }
+  }
+
+  fetch(cid: string, fileName: string, signal: AbortSignal) {
+    return fetchBytes(fillTemplate(this.template, cid, fileName), signal)
+  }
+}
+
+// Serves `${directory}/${cid}/${fileName}`, for tests without network access
+export class LocalDirectoryProvider implements ContentProvider {
+  name: string
+  trusted = true
+  private directory: string
+
+  constructor(directory: string) {
+    this.name = `local:${directory}`
+    this.directory = directory
+  }
+
+  async fetch(cid: string, fileName: string): Promise<Uint8Array> {
+    const file = contentPath(this.directory, cid, fileName)
+    if (!file) throw new Error(`Invalid CID or file name for ${cid}`)
+    return new Uint8Array(await fsPromises.readFile(file))
+  }
+}
+
+export const DEFAULT_GATEWAYS: Array<[string, string?]> = [
+  ['https://koii-k2-task-metadata.s3.us-east-2.amazonaws.com/{cid}/{fileName}'],
+  [
+    'https://{cid}.ipfs.w3s.link/{fileName}',
+    'https://{cid}.ipfs.w3s.link/?format=raw',
+  ],
+  ['https://ipfs-gateway.koii.live/ipfs/{cid}/{fileName}'],
+  [
+    'https://{cid}.ipfs.dweb.link/{fileName}',
+    'https://{cid}.ipfs.dweb.link/?format=raw',
+  ],
+  [
+    'https://gateway.ipfs.io/ipfs/{cid}/{fileName}',
+    'https://gateway.ipfs.io/ipfs/{cid}?format=raw',
+  ],
+  [
+    'https://ipfs.io/ipfs/{cid}/{fileName}',
+    'https://ipfs.io/ipfs/{cid}?format=raw',
+  ],
+  ['https://ipfs.eth.aragon.network/ipfs/{cid}/{fileName}'],
+]
+
+/**
+ * Fetches IPFS content from several providers at once and keeps the first
+ * response that checks out against its CID. Files wrapped in a directory
+ * are checked by resolving the directory block through the provider.
+ * Content that cannot be checked is only used once every provider has
+ * answered without checked content.
+ */
+export class ContentRetriever {
+  private providers: ContentProvider[]
+  private concurrency: number
+  private timeout: number
+  private cacheDir: string | null
+  private requireVerification: boolean
+  private wrapperMetrics: WrapperMetrics
+  private log: Logger
+
+  constructor(options: ContentRetrieverOptions = {}) {
+    this.providers =
+      options.providers ||
+      DEFAULT_GATEWAYS.map(
+        ([template, blockTemplate]) =>
+          new HttpGatewayProvider(template, blockTemplate),
+      )
+    this.concurrency = Math.max(1, options.concurrency ?? 3)
+    this.timeout = options.timeout ?? 15000
+    this.cacheDir = options.cacheDir ?? null
+    this.requireVerification = options.requireVerification ?? false
+    this.wrapperMetrics = createWrapperMetrics(
+      options.metrics ?? new MetricsRegistry(),
+    )
+    this.log = options.logger ?? new Logger()
+  }
+
+  async retrieveText(
+    cid: string,
+    fileName = '',
+    signal?: AbortSignal,
+  ): Promise<string> {
+    return Buffer.from(await this.retrieve(cid, fileName, signal)).toString(
+      'utf-8',
+    )
+  }
+
+  // `signal` aborts every gateway request and rejects the retrieval
+  async retrieve(
+    cid: string,
+    fileName = '',
+    signal?: AbortSignal,
+  ): Promise<Uint8Array> {
+    signal?.throwIfAborted()
+    const cached = await this.readCache(cid, fileName)
+    if (cached) return cached
+
+    const { content, verification } = await this.race(cid, fileName, signal)
+    if (verification === 'verified')
+      await this.writeCache(cid, fileName, content)
+    return content
+  }
+
+  // Runs up to `concurrency` providers at a time, the first verified or
+  // trusted result wins, else the first unverifiable one
+  private race(
+    cid: string,
+    fileName: string,
+    signal?: AbortSignal,
+  ): Promise<{ content: Uint8Array; verification: VerificationResult }> {
+    const controllers: AbortController[] = []
+    let onAbort: (() => void) | undefined
+    let next = 0
+    let pending = 0
+    let settled = false
+    let fallback: {
+      content: Uint8Array
+      verification: VerificationResult
+    } | null = null
+
+    const result = new Promise<{
+      content: Uint8Array
+      verification: VerificationResult
+    }>((resolve, reject) => {
+      onAbort = () => {
+        if (settled) return
+        settled = true
+        controllers.forEach((c) => c.abort())
+        reject(signal!.reason)
+      }
+      signal?.addEventListener('abort', onAbort)
+      const launch = () => {
+        if (settled) return
+        if (next >= this.providers.length) {
+          if (pending === 0) {
+            settled = true
+            if (fallback) resolve(fallback)
+            else reject(new Error(`Failed to get ${cid} from IPFS`))
+          }
+          return
+        }
+        const provider = this.providers[next++]
+        const controller = new AbortController()
+        controllers.push(controller)
+        const timer = setTimeout(() => controller.abort(), this.timeout)
+        pending++
+        this.tryProvider(provider, cid, fileName, controller.signal)
+          .then((result) => {
+            if (settled) return
+            if (result.verification !== 'verified' && !provider.trusted) {
+              fallback = fallback ?? result
+              return
+            }
+            settled = true
+            controllers.forEach((c) => c.abort())
+            resolve(result)
+          })
+          .catch((error) => {
+            if (!settled) {
+              this.wrapperMetrics.gatewayFailures.inc({
+                provider: provider.name,
+              })
+              this.log.debug(`Gateway failed at ${provider.name}`, {
+                cid,
+                error: error.message,
+              })
+            }
+          })
+          .finally(() => {
+            clearTimeout(timer)
+            pending--
+            launch()
+          })
+      }
+      for (let i = 0; i < this.concurrency; i++) launch()
+    })
+    return result.finally(() => signal?.removeEventListener('abort', onAbort!))
+  }
+
+  private async tryProvider(
+    provider: ContentProvider,
+    cid: string,
+    fileName: string,
+    signal: AbortSignal,
+  ): Promise<{ content: Uint8Array; verification: VerificationResult }> {
+    const content = await provider.fetch(cid, fileName, signal)
+    if (provider.trusted) return { content, verification: 'unverifiable' }
+    const verification = await this.verify(
+      provider,
+      cid,
+      fileName,
+      content,
+      signal,
+    )
+    if (verification === 'mismatch') {
+      throw new Error(`Content does not match ${cid}`)
+    }
+    if (verification === 'unverifiable') {
+      if (this.requireVerification) {
+        throw new Error(`Content for ${cid} could not be verified`)
+      }
+      // Gateways answer missing content with an HTML error page
+      if (Buffer.from(content.subarray(0, 1)).toString() === '<') {
+        throw new Error('Received an HTML page instead of the content')
+      }
+    }
+    return { content, verification }
+  }
+
+  async verify(
+    provider: ContentProvider,
+    cid: string,
+    fileName: string,
+    content: Uint8Array,
+    signal: AbortSignal,
+  ): Promise<VerificationResult> {
+    let target = parseCid(cid)
+    if (!target) return 'unverifiable'
+    if (fileName) {
+      if (!provider.fetchBlock) return 'unverifiable'
+      const directory = await this.fetchVerifiedBlock(
+        provider,
+        target,
+        cid,
+        signal,
+      )
+      if (!directory) return 'unverifiable'
+      const link = decodeDagPb(directory).links.find((l) => l.name === fileName)
+      if (!link || !link.cid) return 'unverifiable'
+      target = link.cid
+    }
+    return this.verifyFile(provider, target, content, signal)
+  }
+
+  private async verifyFile(
+    provider: ContentProvider,
+    target: ParsedCid,
+    content: Uint8Array,
+    signal: AbortSignal,
+  ): Promise<VerificationResult> {
+    if (target.codec === CODEC_RAW) {
+      const matches = blockMatchesCid(target, content)
+      if (matches === null) return 'unverifiable'
+      return matches ? 'verified' : 'mismatch'
+    }
+    if (target.codec !== CODEC_DAG_PB) return 'unverifiable'
+    const singleBlock = encodeSingleBlockFile(content)
+    if (singleBlock && blockMatchesCid(target, singleBlock)) return 'verified'
+    // Other chunking or UnixFS options, compare against the file's own block
+    if (!provider.fetchBlock) return 'unverifiable'
+    const block = await this.fetchVerifiedBlock(provider, target, '', signal)
+    if (!block) return 'unverifiable'
+    const node = decodeDagPb(block)
+    if (node.links.length > 0 || !node.data) return 'unverifiable'
+    const file = decodeUnixFs(node.data)
+    return Buffer.from(file.data).equals(Buffer.from(content))
+      ? 'verified'
+      : 'mismatch'
+  }
+
+  private async fetchVerifiedBlock(
+    provider: ContentProvider,
+    target: ParsedCid,
+    cid: string,
+    signal: AbortSignal,
+  ): Promise<Uint8Array | null> {
+    try {
+      const block = await provider.fetchBlock!(cid || formatCid(target), signal)
+      return blockMatchesCid(target, block) ? block : null
+    } catch (error) {
+      return null
+    }
+  }
+
+  private cachePath(cid: string, fileName: string): string | null {
+    if (!this.cacheDir) return null
+    return contentPath(this.cacheDir, cid, fileName || '_content')
+  }
+
+  private async readCache(cid: string, fileName: string) {
+    const file = this.cachePath(cid, fileName)
+    if (!file) return null
+    try {
+      return new Uint8Array(await fsPromises.readFile(file))
+    } catch (e) {
+      return null
+    }
+  }
+
+  private async writeCache(cid: string, fileName: string, content: Uint8Array) {
+    const file = this.cachePath(cid, fileName)
+    if (!file) return
+    try {
+      await fsPromises.mkdir(path.dirname(file), { recursive: true })
+      await fsPromises.writeFile(file, content)
+    } catch (e) {
+      this.log.warn('Error writing content cache', { cid, error: e })
+    }
+  }
+}
@@ -0,0 +1,110 @@
+// Everything the package exports except the default instance. Importing
+// this entry point builds and starts nothing.
+import { TaskNodeClient, TaskNodeError } from './taskNodeClient'
+import { TaskNodeEmulator } from './taskNodeEmulator'
+import {
+  SelectionStrategies,
+  hashToUnit,
+  rankDistributionNodes,
+  selectDistributionNode,
+} from './nodeSelection'
+import { RoundSimulator, Misbehaviors } from './roundSimulator'
+import { RoundScheduler, getRoundPhase } from './roundScheduler'
+import { TaskStateWatcher, diffTaskState } from './taskStateWatcher'
+import {
+  DistributionCalculator,
+  DistributionStrategies,
+  buildDistributionInput,
+  getAuditOutcome,
+} from './distributionCalculator'
+import { StoreNamespace } from './store'
+import { openStorage, migrateNeDBToStorage, SqliteStorage } from './storage'
+import { SamplingStrategies } from './auditSampling'
+import { ReputationTracker, reputationScore, voteAccuracy } from './reputation'
+import {
+  ContentRetriever,
+  HttpGatewayProvider,
+  LocalDirectoryProvider,
+} from './contentRetrieval'
+import { submissionFileName } from './submissionEnvelope'
+import { canonicalStringify } from './canonicalJson'
+import {
+  ConsoleSink,
+  Logger,
+  RotatingFileSink,
+  TaskNodeLogSink,
+  defaultLogger,
+} from './logger'
+import {
+  Counter,
+  Gauge,
+  Histogram,
+  MetricsRegistry,
+  defaultMetrics,
+} from './metrics'
+import { ConfigError, loadConfig } from './config'
+import { NamespaceWrapper, createNamespaceWrapper } from './namespaceWrapper'
+import { TaskServer, createTaskServer } from './taskServer'
+import {
+  createSignedRequestHeaders,
+  requireSignature,
+  signResponses,
+} from './requestAuth'
+import { PeerClient, PeerRequestError } from './peerClient'
+import { decodeTaskAccount, TaskAccountDecodeError } from './taskAccount'
+
+export {
+  NamespaceWrapper,
+  createNamespaceWrapper,
+  TaskServer,
+  createTaskServer,
+  requireSignature,
+  createSignedRequestHeaders,
+  signResponses,
+  PeerClient,
+  PeerRequestError,
+  decodeTaskAccount,
+  TaskAccountDecodeError,
+  TaskNodeClient,
+  TaskNodeError,
+  TaskNodeEmulator,
+  RoundSimulator,
+  Misbehaviors,
+  selectDistributionNode,
+  rankDistributionNodes,
+  SelectionStrategies,
+  hashToUnit,
+  RoundScheduler,
+  getRoundPhase,
+  TaskStateWatcher,
+  diffTaskState,
+  DistributionCalculator,
+  DistributionStrategies,
+  buildDistributionInput,
+  getAuditOutcome,
+  StoreNamespace,
+  openStorage,
+  migrateNeDBToStorage,
+  SqliteStorage,
+  ContentRetriever,
+  HttpGatewayProvider,
+  LocalDirectoryProvider,
+  submissionFileName,
+  canonicalStringify,
+  SamplingStrategies,
+  ReputationTracker,
+  reputationScore,
+  voteAccuracy,
+  Logger,
+  defaultLogger,
+  ConsoleSink,
+  RotatingFileSink,
+  TaskNodeLogSink,
+  MetricsRegistry,
+  Counter,
+  Gauge,
+  Histogram,
+  defaultMetrics,
+  loadConfig,
+  ConfigError,
+}
@@ -0,0 +1,318 @@
+import {
+  AuditTriggerState,
+  Submission,
+  TaskState,
+  TaskStateOptions,
+} from './types'
+import { Logger } from './logger'
+
+export interface DistributionInput {
+  round: number
+  submissions: Record<string, Submission>
+  auditTriggers: Record<string, AuditTriggerState>
+  stakeList: Record<string, number>
+  bountyAmountPerRound: number
+}
+
+export type DistributionStrategy = (
+  input: DistributionInput,
+) => Record<string, number>
+
+export interface DistributionAuditSource {
+  getDistributionList(publicKey: string, round: number): Promise<any | null>
+  getTaskState(options: TaskStateOptions): Promise<TaskState | null>
+  // The wrapper's logger when the source is the wrapper
+  log?: Logger
+}
+
+export type AuditOutcome = 'passed' | 'failed' | 'undecided'
+
+export interface DistributionMismatch {
+  publicKey: string
+  expected: number | undefined
+  actual: number | undefined
+}
+
+export interface DistributionValidationResult {
+  valid: boolean
+  expected: Record<string, number>
+  mismatches: DistributionMismatch[]
+}
+
+export interface SplitOptions {
+  // 'unallocated' leaves the lamports that do not divide evenly in the bounty
+  remainder?: 'distribute' | 'unallocated'
+}
+
+export interface AuditPenaltyOptions {
+  // Share of a node's stake taken when it loses an audit
+  penaltyPercentage?: number
+}
+
+/**
+ * Outcome of the audit against a submission. A trigger nobody voted on, or
+ * with more false votes than true ones, is a lost audit; a tie is undecided.
+ */
+export function getAuditOutcome(
+  trigger: AuditTriggerState | undefined,
+): AuditOutcome {
+  if (!trigger) return 'passed'
+  if (trigger.votes.length === 0) return 'failed'
+  const balance = trigger.votes.reduce(
+    (acc, vote) => acc + (vote.is_valid ? 1 : -1),
+    0,
+  )
+  if (balance > 0) return 'passed'
+  if (balance < 0) return 'failed'
+  return 'undecided'
+}
+
+export function buildDistributionInput(
+  taskState: Pick<
+    TaskState,
+    | 'submissions'
+    | 'submissions_audit_trigger'
+    | 'stake_list'
+    | 'bounty_amount_per_round'
+  >,
+  round: number,
+): DistributionInput {
+  return {
+    round,
+    submissions: taskState.submissions[round] || {},
+    auditTriggers: taskState.submissions_audit_trigger[round] || {},
+    stakeList: taskState.stake_list || {},
+    bountyAmountPerRound: taskState.bounty_amount_per_round,
+  }
+}
+
+// Submitters that passed their audit, in a stable order
+function validSubmitters(input: DistributionInput): string[] {
+  return Object.keys(input.submissions)
+    .filter((key) => getAuditOutcome(input.auditTriggers[key]) === 'passed')
+    .sort()
+}
+
+/**
+ * Splits `total` lamports by integer weights with the largest remainder
+ * method. Ties on the remainder go to the lower public key.
+ */
+function apportion(
+  weights: Record<string, bigint>,
+  total: bigint,
+  remainder: SplitOptions['remainder'],
+): Record<string, number> {
+  const keys = Object.keys(weights).sort()
+  const totalWeight = keys.reduce((acc, key) => acc + weights[key], BigInt(0))
+  const result: Record<string, number> = {}
+  if (keys.length === 0 || totalWeight === BigInt(0)) return result
+
+  let allocated = BigInt(0)
+  const remainders: Array<{ key: string; rest: bigint }> = []
+  for (const key of keys) {
+    const share = total * weights[key]
+    const amount = share / totalWeight
+    allocated += amount
+    remainders.push({ key, rest: share % totalWeight })
+    result[key] = Number(amount)
+  }
+  if (remainder !== 'unallocated') {
+    let left = Number(total - allocated)
+    remainders.sort((a, b) =>
+      a.rest === b.rest ? (a.key < b.key ? -1 : 1) : a.rest > b.rest ? -1 : 1,
+    )
+    for (let i = 0; left > 0; i++, left--) {
+      result[remainders[i % remainders.length].key] += 1
+    }
+  }
+  return result
+}
+
+export const DistributionStrategies = {
+  // Equal share of the round bounty for every submitter that passed audit
+  equalSplit(options: SplitOptions = {}): DistributionStrategy {
+    return (input) => {
+      const weights: Record<string, bigint> = {}
+      for (const key of validSubmitters(input)) weights[key] = BigInt(1)
+      return apportion(
+        weights,
+        BigInt(Math.floor(input.bountyAmountPerRound)),
+        options.remainder,
+      )
+    }
+  },
+
+  // Bounty split by stake; falls back to equal shares if no submitter has stake
+  stakeProportional(options: SplitOptions = {}): DistributionStrategy {
+    return (input) => {
+      const keys = validSubmitters(input)
+      const weights: Record<string, bigint> = {}
+      for (const key of keys) {
+        weights[key] = BigInt(Math.floor(input.stakeList[key] || 0))
+      }
+      if (keys.every((key) => weights[key] === BigInt(0))) {
+        return DistributionStrategies.equalSplit(options)(input)
+      }
+      return apportion(
+        weights,
+        BigInt(Math.floor(input.bountyAmountPerRound)),
+        options.remainder,
+      )
+    }
+  },
+
+  /**
+   * Adds a negative entry, a share of their stake, for submitters that lost
+   * their audit. Rewards come from `strategy`.
+   */
+  withAuditPenalty(
+    strategy: DistributionStrategy,
+    options: AuditPenaltyOptions = {},
+  ): DistributionStrategy {
+    const penaltyPercentage = options.penaltyPercentage ?? 0.7
+    return (input) => {
+      const list = strategy(input)
+      for (const key of Object.keys(input.submissions).sort()) {
+        if (getAuditOutcome(input.auditTriggers[key]) !== 'failed') continue
+        const penalty = Math.floor(
+          (input.stakeList[key] || 0) * penaltyPercentage,
+        )
+        if (penalty > 0) list[key] = -penalty
+      }
+      return list
+    }
+  },
+}
+
+/**
+ * Builds distribution lists from a round's submissions, audit outcomes and
+ * stake, and checks lists submitted by other nodes against the same rules.
+ */
+export class DistributionCalculator {
+  private strategy: DistributionStrategy
+
+  constructor(
+    strategy: DistributionStrategy = DistributionStrategies.equalSplit(),
+  ) {
+    this.strategy = strategy
+  }
+
+  calculate(input: DistributionInput): Record<string, number> {
+    return this.strategy(input)
+  }
+
+  fromTaskState(
+    taskState: Parameters<typeof buildDistributionInput>[0],
+    round: number,
+  ): Record<string, number> {
+    return this.calculate(buildDistributionInput(taskState, round))
+  }
+
+  validate(
+    distributionList: Record<string, number>,
+    input: DistributionInput,
+  ): DistributionValidationResult {
+    const expected = this.calculate(input)
+    const keys = new Set([
+      ...Object.keys(expected),
+      ...Object.keys(distributionList),
+    ])
+    const mismatches: DistributionMismatch[] = []
+    for (const publicKey of [...keys].sort()) {
+      if (expected[publicKey] !== distributionList[publicKey]) {
+        mismatches.push({
+          publicKey,
+          expected: expected[publicKey],
+          actual: distributionList[publicKey],
+        })
+      }
+    }
+    return { valid: mismatches.length === 0, expected, mismatches }
+  }
+
+  /**
+   * Returns a `validateDistribution` callback for
+   * `validateAndVoteOnDistributionList` that recomputes the list for the
+   * round and votes true only on an exact match.
+   */
+  auditor(source: DistributionAuditSource) {
+    const log = source.log ?? new Logger()
+    return async (
+      distributionSubmitter: string,
+      round: number,
+    ): Promise<boolean> => {
+      const distributionList = parseDistributionList(
+        await source.getDistributionList(distributionSubmitter, round),
+        log,
+      )
+      if (!distributionList) {
+        log.warn('Could not read distribution list', {
+          round,
+          candidate: distributionSubmitter,
+        })
+        return false
+      }
+      const taskState = await source.getTaskState({
+        is_submission_required: true,
+        is_stake_list_required: true,
+      })
+      if (taskState == null) {
+        log.error('Task state not found', { round })
+        return false
+      }
+      const result = this.validate(
+        distributionList,
+        buildDistributionInput(taskState, round),
+      )
+      if (!result.valid) {
+        log.warn('Distribution list mismatch', {
+          round,
+          candidate: distributionSubmitter,
+          mismatches: result.mismatches,
+        })
+      }
+      return result.valid
+    }
+  }
+}
+
+// A parsed list must map public keys to lamport amounts
+function asDistributionList(value: unknown): Record<string, number> | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return null
+  }
+  const amounts = Object.values(value)
+  return amounts.every((amount) => Number.isFinite(amount))
+    ? (value as Record<string, number>)
+    : null
+}
+
+// Distribution lists come back as JSON strings, Buffers or serialized Buffers.
+// Parse errors are logged to `logger` when given.
+export function parseDistributionList(
+  raw: unknown,
+  logger?: Logger,
+): Record<string, number> | null {
+  try {
+    if (raw == null) return null
+    if (Buffer.isBuffer(raw)) {
+      return asDistributionList(JSON.parse(raw.toString('utf-8')))
+    }
+    if (typeof raw === 'string') return asDistributionList(JSON.parse(raw))
+    if (
+      typeof raw === 'object' &&
+      'type' in raw &&
+      raw.type === 'Buffer' &&
+      'data' in raw &&
+      Array.isArray(raw.data)
+    ) {
+      return asDistributionList(
+        JSON.parse(Buffer.from(raw.data).toString('utf-8')),
+      )
+    }
+    return asDistributionList(raw)
+  } catch (e) {
+    logger?.warn('Error parsing distribution list', { error: e })
+  }
+  return null
+}
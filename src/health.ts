@@ -0,0 +1,75 @@
+export type CheckStatus = 'pass' | 'fail' | 'skip'
+
+export interface CheckOutcome {
+  status: CheckStatus
+  details?: Record<string, unknown>
+  error?: string
+}
+
+export interface CheckResult extends CheckOutcome {
+  durationMs: number
+}
+
+export interface HealthCheck {
+  run(): Promise<CheckOutcome>
+  // A failing critical check makes the node unhealthy, any failing check
+  // makes it not ready
+  critical: boolean
+}
+
+export interface HealthReport {
+  healthy: boolean
+  ready: boolean
+  checks: Record<string, CheckResult>
+}
+
+async function runCheck(
+  name: string,
+  check: HealthCheck,
+  timeout: number,
+): Promise<CheckResult> {
+  const start = Date.now()
+  let timer: NodeJS.Timeout | undefined
+  try {
+    const outcome = await Promise.race([
+      check.run(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`${name} check timed out after ${timeout}ms`)),
+          timeout,
+        )
+      }),
+    ])
+    return { ...outcome, durationMs: Date.now() - start }
+  } catch (e) {
+    return {
+      status: 'fail',
+      error: e instanceof Error ? e.message : String(e),
+      durationMs: Date.now() - start,
+    }
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Runs every check concurrently, each bounded by `timeout` so a hanging
+ * dependency shows up as a failure instead of a hanging request
+ */
+export async function runHealthChecks(
+  checks: Record<string, HealthCheck>,
+  timeout = 5000,
+): Promise<HealthReport> {
+  const names = Object.keys(checks)
+  const results = await Promise.all(
+    names.map((name) => runCheck(name, checks[name], timeout)),
+  )
+  const report: HealthReport = { healthy: true, ready: true, checks: {} }
+  names.forEach((name, i) => {
+    report.checks[name] = results[i]
+    if (results[i].status !== 'fail') return
+    report.ready = false
+    if (checks[name].critical) report.healthy = false
+  })
+  return report
+}
@@ -0,0 +1,348 @@
+import { promises as fsPromises } from 'fs'
+import { LogLevel } from './types'
+
+export type LoggerLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export const LOGGER_LEVELS: Record<LoggerLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+}
+
+export interface LogFields {
+  taskId?: string
+  round?: number
+  candidate?: string
+  action?: string
+  [field: string]: unknown
+}
+
+export interface LogRecord extends LogFields {
+  time: string
+  level: LoggerLevel
+  msg: string
+}
+
+export interface LogSink {
+  // Records below this level are not passed to the sink
+  level?: LoggerLevel
+  write(record: LogRecord): void
+  flush?(): Promise<void>
+  close?(): Promise<void>
+}
+
+export function isLoggerLevel(value: unknown): value is LoggerLevel {
+  return typeof value === 'string' && value in LOGGER_LEVELS
+}
+
+// Errors have no enumerable fields, so JSON.stringify would drop them
+function jsonReplacer(_key: string, value: unknown) {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack }
+  }
+  if (typeof value === 'bigint') return value.toString()
+  return value
+}
+
+export function formatJson(record: LogRecord): string {
+  try {
+    return JSON.stringify(record, jsonReplacer)
+  } catch (e) {
+    // Circular structures, e.g. axios responses
+    return JSON.stringify({
+      time: record.time,
+      level: record.level,
+      msg: record.msg,
+      unserializable: String(e),
+    })
+  }
+}
+
+export function formatText(record: LogRecord): string {
+  const { time, level, msg, ...fields } = record
+  const keys = Object.keys(fields)
+  if (keys.length === 0) return `${time} ${level.toUpperCase()} ${msg}`
+  const rest = formatJson(fields as LogRecord)
+  return `${time} ${level.toUpperCase()} ${msg} ${rest}`
+}
+
+export class Logger {
+  private state: { level: LoggerLevel; sinks: LogSink[] }
+  private fields: LogFields
+
+  constructor(
+    options: {
+      level?: LoggerLevel
+      sinks?: LogSink[]
+      fields?: LogFields
+    } = {},
+  ) {
+    this.state = {
+      level: options.level ?? 'info',
+      sinks: options.sinks ?? [new ConsoleSink()],
+    }
+    this.fields = options.fields ?? {}
+  }
+
+  /**
+   * Logger that adds `fields` to every record. It shares the level and sinks
+   * of its parent, so configuring either one configures both.
+   */
+  child(fields: LogFields): Logger {
+    const child = new Logger()
+    child.state = this.state
+    child.fields = { ...this.fields, ...fields }
+    return child
+  }
+
+  get level(): LoggerLevel {
+    return this.state.level
+  }
+
+  setLevel(level: LoggerLevel): void {
+    this.state.level = level
+  }
+
+  setSinks(sinks: LogSink[]): void {
+    this.state.sinks = sinks
+  }
+
+  addSink(sink: LogSink): void {
+    this.state.sinks.push(sink)
+  }
+
+  isLevelEnabled(level: LoggerLevel): boolean {
+    return LOGGER_LEVELS[level] >= LOGGER_LEVELS[this.state.level]
+  }
+
+  log(level: LoggerLevel, msg: string, fields: LogFields = {}): void {
+    if (!this.isLevelEnabled(level)) return
+    const record: LogRecord = { time: new Date().toISOString(), level, msg }
+    for (const [key, value] of Object.entries({ ...this.fields, ...fields })) {
+      if (value !== undefined) record[key] = value
+    }
+    for (const sink of this.state.sinks) {
+      if (sink.level && LOGGER_LEVELS[level] < LOGGER_LEVELS[sink.level]) {
+        continue
+      }
+      try {
+        sink.write(record)
+      } catch (e) {
+        console.error('Log sink failed', e)
+      }
+    }
+  }
+
+  debug(msg: string, fields?: LogFields): void {
+    this.log('debug', msg, fields)
+  }
+
+  info(msg: string, fields?: LogFields): void {
+    this.log('info', msg, fields)
+  }
+
+  warn(msg: string, fields?: LogFields): void {
+    this.log('warn', msg, fields)
+  }
+
+  error(msg: string, fields?: LogFields): void {
+    this.log('error', msg, fields)
+  }
+
+  async flush(): Promise<void> {
+    await Promise.all(this.state.sinks.map((sink) => sink.flush?.()))
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(this.state.sinks.map((sink) => sink.close?.()))
+  }
+}
+
+export class ConsoleSink implements LogSink {
+  level?: LoggerLevel
+  private json: boolean
+
+  constructor(options: { json?: boolean; level?: LoggerLevel } = {}) {
+    this.json = options.json ?? false
+    this.level = options.level
+  }
+
+  write(record: LogRecord): void {
+    const line = this.json ? formatJson(record) : formatText(record)
+    if (record.level === 'error') console.error(line)
+    else if (record.level === 'warn') console.warn(line)
+    else console.log(line)
+  }
+}
+
+export interface RotatingFileSinkOptions {
+  path: string
+  // Size at which the file is rotated, 10 MB by default
+  maxBytes?: number
+  // Rotated files kept next to the current one as `${path}.1` and so on
+  maxFiles?: number
+  level?: LoggerLevel
+}
+
+/**
+ * Appends JSON lines to `path`. Writes are queued so records keep their
+ * order, and the file is rotated once it reaches `maxBytes`.
+ */
+export class RotatingFileSink implements LogSink {
+  level?: LoggerLevel
+  private path: string
+  private maxBytes: number
+  private maxFiles: number
+  private size: number | null = null
+  private queue: Promise<void> = Promise.resolve()
+
+  constructor(options: RotatingFileSinkOptions) {
+    this.path = options.path
+    this.maxBytes = options.maxBytes ?? 10 * 1024 * 1024
+    this.maxFiles = options.maxFiles ?? 5
+    this.level = options.level
+  }
+
+  write(record: LogRecord): void {
+    const line = formatJson(record) + '\n'
+    this.queue = this.queue
+      .then(() => this.append(line))
+      .catch((e) => console.error('Error writing log file', e))
+  }
+
+  flush(): Promise<void> {
+    return this.queue
+  }
+
+  close(): Promise<void> {
+    return this.queue
+  }
+
+  private async append(line: string): Promise<void> {
+    if (this.size === null) {
+      try {
+        this.size = (await fsPromises.stat(this.path)).size
+      } catch (e) {
+        this.size = 0
+      }
+    }
+    const bytes = Buffer.byteLength(line)
+    if (this.size > 0 && this.size + bytes > this.maxBytes) await this.rotate()
+    await fsPromises.appendFile(this.path, line)
+    this.size += bytes
+  }
+
+  private async rotate(): Promise<void> {
+    for (let i = this.maxFiles - 1; i >= 1; i--) {
+      await fsPromises
+        .rename(`${this.path}.${i}`, `${this.path}.${i + 1}`)
+        .catch(() => undefined)
+    }
+    // rename replaces the oldest file once all `maxFiles` slots are used
+    if (this.maxFiles > 0) {
+      await fsPromises.rename(this.path, `${this.path}.1`)
+    } else {
+      await fsPromises.unlink(this.path)
+    }
+    this.size = 0
+  }
+}
+
+export type TaskNodeLogFunction = (
+  level: LogLevel,
+  message: string,
+  action: string,
+) => Promise<unknown>
+
+export interface TaskNodeLogSinkOptions {
+  // Defaults to 'warn' so debug and info output stays local
+  level?: LoggerLevel
+  // Records sent in one call, 20 by default
+  batchSize?: number
+  // Milliseconds before a partial batch is sent, 5000 by default
+  flushInterval?: number
+}
+
+function toTaskNodeLevel(level: LoggerLevel): LogLevel {
+  if (level === 'error') return LogLevel.Error
+  if (level === 'warn') return LogLevel.Warn
+  return LogLevel.Log
+}
+
+/**
+ * Forwards records through the task node `logger` action. Records are
+ * batched per level and action, one JSON line per record in the message.
+ */
+export class TaskNodeLogSink implements LogSink {
+  level?: LoggerLevel
+  private send: TaskNodeLogFunction
+  private batchSize: number
+  private flushInterval: number
+  private pending: LogRecord[] = []
+  private timer: NodeJS.Timeout | null = null
+  private sending: Promise<void> = Promise.resolve()
+
+  constructor(send: TaskNodeLogFunction, options: TaskNodeLogSinkOptions = {}) {
+    this.send = send
+    this.level = options.level ?? 'warn'
+    this.batchSize = options.batchSize ?? 20
+    this.flushInterval = options.flushInterval ?? 5000
+  }
+
+  write(record: LogRecord): void {
+    // A failing `logger` call is itself logged, do not forward it again
+    if (record.action === 'logger') return
+    this.pending.push(record)
+    if (this.pending.length >= this.batchSize) {
+      this.flush()
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), this.flushInterval)
+      this.timer.unref?.()
+    }
+  }
+
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    const records = this.pending
+    this.pending = []
+    if (records.length > 0) {
+      this.sending = this.sending.then(() => this.sendBatch(records))
+    }
+    return this.sending
+  }
+
+  close(): Promise<void> {
+    return this.flush()
+  }
+
+  private async sendBatch(records: LogRecord[]): Promise<void> {
+    const groups = new Map<string, LogRecord[]>()
+    for (const record of records) {
+      const key = `${toTaskNodeLevel(record.level)}\n${record.action ?? ''}`
+      if (!groups.has(key)) groups.set(key, [])
+      groups.get(key)!.push(record)
+    }
+    for (const [key, group] of groups) {
+      const [level, action] = key.split('\n')
+      try {
+        await this.send(
+          level as LogLevel,
+          group.map(formatJson).join('\n'),
+          action,
+        )
+      } catch (e) {
+        console.error('Error forwarding logs to the task node', e)
+      }
+    }
+  }
+}
+
+/**
+ * Logger shared by the wrapper and its modules. The wrapper sets its level
+ * and sinks from the environment on startup.
+ */
+export const defaultLogger = new Logger()
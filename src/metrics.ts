@@ -0,0 +1,311 @@
+export type MetricLabels = Record<string, string | number | boolean>
+export type MetricType = 'counter' | 'gauge' | 'histogram'
+
+export const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+]
+
+const METRIC_NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+function labelKey(labels: MetricLabels = {}): string {
+  return Object.keys(labels)
+    .sort()
+    .map((name) => `${name}="${escapeLabelValue(String(labels[name]))}"`)
+    .join(',')
+}
+
+function formatSample(name: string, key: string, value: number): string {
+  const rendered = Number.isFinite(value)
+    ? String(value)
+    : value > 0
+      ? '+Inf'
+      : value < 0
+        ? '-Inf'
+        : 'NaN'
+  return key ? `${name}{${key}} ${rendered}` : `${name} ${rendered}`
+}
+
+abstract class Metric {
+  abstract readonly type: MetricType
+
+  constructor(
+    public readonly name: string,
+    public readonly help: string,
+  ) {
+    if (!METRIC_NAME.test(name)) throw new Error(`Invalid metric name ${name}`)
+  }
+
+  abstract samples(): string[]
+
+  render(): string {
+    return [
+      `# HELP ${this.name} ${this.help.replace(/\n/g, ' ')}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.samples(),
+    ].join('\n')
+  }
+}
+
+export class Counter extends Metric {
+  readonly type = 'counter'
+  private values = new Map<string, number>()
+
+  inc(labels?: MetricLabels, value = 1): void {
+    if (value < 0) throw new Error(`Counter ${this.name} cannot decrease`)
+    const key = labelKey(labels)
+    this.values.set(key, (this.values.get(key) || 0) + value)
+  }
+
+  get(labels?: MetricLabels): number {
+    return this.values.get(labelKey(labels)) || 0
+  }
+
+  samples(): string[] {
+    return [...this.values].map(([key, value]) =>
+      formatSample(this.name, key, value),
+    )
+  }
+}
+
+export class Gauge extends Metric {
+  readonly type = 'gauge'
+  private values = new Map<string, number>()
+
+  set(value: number, labels?: MetricLabels): void {
+    this.values.set(labelKey(labels), value)
+  }
+
+  inc(labels?: MetricLabels, value = 1): void {
+    const key = labelKey(labels)
+    this.values.set(key, (this.values.get(key) || 0) + value)
+  }
+
+  dec(labels?: MetricLabels, value = 1): void {
+    this.inc(labels, -value)
+  }
+
+  get(labels?: MetricLabels): number | undefined {
+    return this.values.get(labelKey(labels))
+  }
+
+  samples(): string[] {
+    return [...this.values].map(([key, value]) =>
+      formatSample(this.name, key, value),
+    )
+  }
+}
+
+interface HistogramSeries {
+  buckets: number[]
+  sum: number
+  count: number
+}
+
+export class Histogram extends Metric {
+  readonly type = 'histogram'
+  private series = new Map<string, HistogramSeries>()
+  private bucketBounds: number[]
+
+  constructor(name: string, help: string, buckets = DEFAULT_BUCKETS) {
+    super(name, help)
+    this.bucketBounds = [...buckets].sort((a, b) => a - b)
+  }
+
+  observe(value: number, labels?: MetricLabels): void {
+    const key = labelKey(labels)
+    let series = this.series.get(key)
+    if (!series) {
+      series = {
+        buckets: new Array(this.bucketBounds.length).fill(0),
+        sum: 0,
+        count: 0,
+      }
+      this.series.set(key, series)
+    }
+    this.bucketBounds.forEach((bound, i) => {
+      if (value <= bound) series!.buckets[i]++
+    })
+    series.sum += value
+    series.count++
+  }
+
+  // Starts a timer, the returned function observes the elapsed seconds
+  startTimer(labels?: MetricLabels): (extraLabels?: MetricLabels) => number {
+    const start = process.hrtime.bigint()
+    return (extraLabels) => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9
+      this.observe(seconds, { ...labels, ...extraLabels })
+      return seconds
+    }
+  }
+
+  samples(): string[] {
+    const lines: string[] = []
+    for (const [key, series] of this.series) {
+      const prefix = key ? `${key},` : ''
+      this.bucketBounds.forEach((bound, i) => {
+        lines.push(
+          `${this.name}_bucket{${prefix}le="${bound}"} ${series.buckets[i]}`,
+        )
+      })
+      lines.push(`${this.name}_bucket{${prefix}le="+Inf"} ${series.count}`)
+      lines.push(formatSample(`${this.name}_sum`, key, series.sum))
+      lines.push(formatSample(`${this.name}_count`, key, series.count))
+    }
+    return lines
+  }
+}
+
+export type MetricsCollector = () => void | Promise<void>
+
+export interface MetricsRegistryOptions {
+  // Milliseconds a collector may run before rendering goes on without it,
+  // 5000 by default
+  collectorTimeout?: number
+}
+
+async function runCollector(
+  collector: MetricsCollector,
+  timeout: number,
+): Promise<void> {
+  let timer: NodeJS.Timeout | undefined
+  try {
+    await Promise.race([
+      collector(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`Collector timed out after ${timeout}ms`)),
+          timeout,
+        )
+      }),
+    ])
+  } catch (e) {
+    // a failing or slow collector leaves its gauges at their last value
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Holds metrics and renders them in the Prometheus text format. Asking for
+ * an existing name returns the registered metric, so modules can look up a
+ * metric instead of passing it around.
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>()
+  private collectors: MetricsCollector[] = []
+  private collectorTimeout: number
+
+  constructor(options: MetricsRegistryOptions = {}) {
+    this.collectorTimeout = options.collectorTimeout ?? 5000
+  }
+
+  counter(name: string, help: string): Counter {
+    return this.register(name, 'counter', () => new Counter(name, help))
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(name, 'gauge', () => new Gauge(name, help))
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(
+      name,
+      'histogram',
+      () => new Histogram(name, help, buckets),
+    )
+  }
+
+  // Runs before every render, e.g. to refresh gauges that are read on demand
+  addCollector(collector: MetricsCollector): void {
+    this.collectors.push(collector)
+  }
+
+  async render(): Promise<string> {
+    await Promise.all(
+      this.collectors.map((collector) =>
+        runCollector(collector, this.collectorTimeout),
+      ),
+    )
+    return (
+      [...this.metrics.values()].map((metric) => metric.render()).join('\n') +
+      '\n'
+    )
+  }
+
+  private register<T extends Metric>(
+    name: string,
+    type: MetricType,
+    create: () => T,
+  ): T {
+    const existing = this.metrics.get(name)
+    if (existing) {
+      if (existing.type !== type) {
+        throw new Error(
+          `Metric ${name} is already registered as ${existing.type}`,
+        )
+      }
+      return existing as T
+    }
+    const metric = create()
+    this.metrics.set(name, metric)
+    return metric
+  }
+}
+
+export const defaultMetrics = new MetricsRegistry()
+
+/**
+ * Metrics recorded by the wrapper itself, registered on `registry`. Calling
+ * it again with the same registry returns the same metrics.
+ */
+export function createWrapperMetrics(registry: MetricsRegistry) {
+  return {
+    taskNodeRequests: registry.counter(
+      'koii_task_node_requests_total',
+      'Calls to the task node by action and result',
+    ),
+    taskNodeRequestDuration: registry.histogram(
+      'koii_task_node_request_duration_seconds',
+      'Latency of calls to the task node by action',
+    ),
+    submissions: registry.counter(
+      'koii_task_submissions_total',
+      'Submissions made by this node',
+    ),
+    votes: registry.counter(
+      'koii_task_votes_total',
+      'Audit votes cast by kind and vote',
+    ),
+    auditsRaised: registry.counter(
+      'koii_task_audits_raised_total',
+      'Audits raised by this node by kind',
+    ),
+    distributionSelectionsWon: registry.counter(
+      'koii_task_distribution_selections_won_total',
+      'Rounds in which this node was selected to submit the distribution list',
+    ),
+    payoutTriggers: registry.counter(
+      'koii_task_payout_triggers_total',
+      'Payout triggers sent by this node',
+    ),
+    gatewayFailures: registry.counter(
+      'koii_task_gateway_failures_total',
+      'Failed content fetches by provider',
+    ),
+    currentRound: registry.gauge(
+      'koii_task_current_round',
+      'Current round of the task',
+    ),
+    currentSlot: registry.gauge(
+      'koii_task_current_slot',
+      'Current slot of the network',
+    ),
+  }
+}
+
+export type WrapperMetrics = ReturnType<typeof createWrapperMetrics>
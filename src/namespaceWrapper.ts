@@ -0,0 +1,1967 @@
+import { Transaction, Connection, Keypair, PublicKey } from '@_koii/web3.js'
+import {
+  promises as fsPromises,
+  createWriteStream,
+  WriteStream,
+  readFileSync,
+} from 'fs'
+import bs58 from 'bs58'
+import Datastore from 'nedb-promises'
+import nacl from 'tweetnacl'
+import {
+  TaskState,
+  TaskNode,
+  TaskSubmissionState,
+  TaskDistributionInfo,
+  LogLevel,
+  TaskStateOptions,
+  TaskType,
+  TaskNodeResult,
+  SubmissionsPerRound,
+  TaskStorage,
+  ValidateAndVoteOptions,
+  NodeSelectionOptions,
+  VerifySelectedNodeOptions,
+  NamespaceWrapperOptions,
+} from './types'
+import { TaskNodeClient, TaskNodeError } from './taskNodeClient'
+import {
+  DistributionSelectionOptions,
+  isPreviousPayoutFailed,
+  pickFromRanking,
+  rankDistributionNodes,
+  selectDistributionNode,
+} from './nodeSelection'
+import { KeyLock, StoreNamespace, StoreSetOptions, escapeRegExp } from './store'
+import { openStorage } from './storage'
+import { SamplingStrategy, SamplingStrategies } from './auditSampling'
+import {
+  ValidationOptions,
+  ValidationOutcome,
+  runValidations,
+} from './validationQueue'
+import { PeerReputation, ReputationTracker } from './reputation'
+import {
+  VoteAction,
+  VoteKind,
+  VoteReport,
+  errorMessage,
+  outcomeReport,
+  skippedReport,
+  voteAction,
+  voteReportKey,
+} from './voteReport'
+import {
+  ContentProvider,
+  ContentRetriever,
+  DEFAULT_GATEWAYS,
+  HttpGatewayProvider,
+  LocalDirectoryProvider,
+} from './contentRetrieval'
+import {
+  LegacySubmissionEnvelope,
+  SignedSubmissionPayload,
+  SubmissionEnvelope,
+  SubmissionVerification,
+  SUBMISSION_ENVELOPE_VERSION,
+  checkSubmissionPayload,
+  hashSubmission,
+  parseSubmissionEnvelope,
+  submissionFileName,
+} from './submissionEnvelope'
+import {
+  SignMessageOptions,
+  SignedMessageVerification,
+  VerifySignedMessageOptions,
+  checkMessagePayload,
+  createMessagePayload,
+  messageNonceKey,
+  parseMessagePayload,
+} from './signedMessage'
+import { canonicalStringify, stringifyForSigning } from './canonicalJson'
+import { ConsoleSink, Logger } from './logger'
+import { HealthReport, runHealthChecks } from './health'
+import {
+  MetricsRegistry,
+  WrapperMetrics,
+  createWrapperMetrics,
+} from './metrics'
+import { decodeTaskAccount } from './taskAccount'
+import { PeerClient } from './peerClient'
+import { WrapperConfig, loadConfig } from './config'
+
+function createContentRetriever(
+  config: WrapperConfig,
+  metrics: MetricsRegistry,
+  logger: Logger,
+): ContentRetriever {
+  const providers: ContentProvider[] = []
+  if (config.ipfsLocalDir) {
+    providers.push(new LocalDirectoryProvider(config.ipfsLocalDir))
+  }
+  for (const [template, blockTemplate] of config.ipfsGateways ??
+    DEFAULT_GATEWAYS) {
+    providers.push(new HttpGatewayProvider(template, blockTemplate))
+  }
+  return new ContentRetriever({
+    providers,
+    cacheDir: config.ipfsCacheDir || null,
+    metrics,
+    logger,
+  })
+}
+
+function recordVote(
+  metrics: WrapperMetrics,
+  kind: VoteKind,
+  action: VoteAction,
+  isValid: boolean,
+) {
+  metrics.votes.inc({ kind, vote: isValid })
+  if (action === 'raisedAudit') metrics.auditsRaised.inc({ kind })
+}
+
+const PURGE_INTERVAL = 60 * 1000
+
+function isExpired(doc: { expiresAt?: number }): boolean {
+  return typeof doc.expiresAt === 'number' && doc.expiresAt <= Date.now()
+}
+
+export class NamespaceWrapper implements TaskNode {
+  readonly config: WrapperConfig
+  readonly taskNodeAdministered: boolean
+  readonly taskNodeClient: TaskNodeClient
+  private connection: Connection | null
+  private dbPath: string
+  private db: TaskStorage | null = null
+  private dbInitialization: Promise<void> | null = null
+  private storeLock = new KeyLock()
+  private lastPurge = 0
+  public testingMainSystemAccount: Keypair | null = null
+  public testingStakingSystemAccount: Keypair | null = null
+  public testingTaskState: TaskState | null = null
+  public testingDistributionList: any = null
+  public contentRetriever: ContentRetriever
+  public reputation = new ReputationTracker(this.storeNamespace('reputation'))
+  public peers: PeerClient
+  public log: Logger
+  // Registry the wrapper's own metrics are recorded on
+  readonly metrics: MetricsRegistry
+  private wrapperMetrics: WrapperMetrics
+
+  /**
+   * The DB is opened on first use. Outside a task node the testing task
+   * state is set up right away, which reads `stakingWalletPath` when set.
+   * Call `initialize()` before using the instance to set up the task and the
+   * RPC connection.
+   */
+  constructor(options: NamespaceWrapperOptions = {}) {
+    this.config = loadConfig({ argv: [], env: {}, overrides: options.config })
+    this.taskNodeAdministered = !!this.config.taskId
+    const logger =
+      options.logger ??
+      new Logger({
+        level: this.config.logLevel,
+        sinks: [new ConsoleSink({ json: this.config.logFormat === 'json' })],
+      })
+    this.log = logger.child({ taskId: this.config.taskId })
+    this.peers = new PeerClient(this, { logger: this.log })
+    this.metrics = options.metrics ?? new MetricsRegistry()
+    this.wrapperMetrics = createWrapperMetrics(this.metrics)
+    this.taskNodeClient =
+      options.taskNodeClient ??
+      new TaskNodeClient({
+        baseUrl: `http://localhost:${this.config.taskNodePort}/namespace-wrapper`,
+        taskId: this.config.taskId,
+        secret: this.config.secretKey,
+        metrics: this.metrics,
+        logger: this.log,
+      })
+    this.connection = options.connection ?? null
+    this.dbPath = options.dbPath ?? './localKOIIDB.db'
+    this.contentRetriever =
+      options.contentRetriever ??
+      createContentRetriever(this.config, this.metrics, this.log)
+    if (!this.taskNodeAdministered) this.setupTestingState()
+  }
+
+  /**
+   * Opens the task DB and runs the default task setup. Under a task node it
+   * also connects to the RPC URL the node reports.
+   */
+  async initialize(): Promise<void> {
+    await this.initializeDB()
+    if (!this.taskNodeAdministered) {
+      await this.defaultTaskSetup()
+    } else if (!this.connection) {
+      const rpcUrl = await this.getRpcUrl()
+      this.log.debug('RPC URL', { rpcUrl })
+      if (typeof rpcUrl === 'string') {
+        this.connection = new Connection(rpcUrl, 'confirmed')
+      }
+    }
+  }
+
+  public async initializeDB(): Promise<void> {
+    if (this.db) return
+    if (!this.dbInitialization) {
+      this.dbInitialization = this.openDB().finally(() => {
+        this.dbInitialization = null
+      })
+    }
+    return this.dbInitialization
+  }
+
+  private async openDB(): Promise<void> {
+    let path: string
+    try {
+      if (this.taskNodeAdministered) {
+        path = unwrap(await this.taskNodeClient.getTaskLevelDBPath())
+      } else {
+        path = this.dbPath
+      }
+    } catch (e) {
+      path = `../namespace/${this.config.taskId}/KOIILevelDB.db`
+    }
+    this.db = await openStorage(this.config.storageBackend, path, this.log)
+  }
+
+  /**
+   * The NeDB datastore, with its full API (cursors, `ensureIndex`, ...). Only
+   * the nedb and memory backends have one, use `getStorage()` with sqlite.
+   */
+  async getDb(): Promise<Datastore<Document>> {
+    const db = await this.getStorage()
+    if (!(db instanceof Datastore)) {
+      throw new Error(
+        `getDb() needs the nedb or memory storage backend, use getStorage() with ${this.config.storageBackend}`,
+      )
+    }
+    return db
+  }
+
+  // The task database on the configured backend
+  async getStorage(): Promise<TaskStorage> {
+    if (this.db) return this.db
+    await this.initializeDB()
+    return this.db!
+  }
+
+  async storeGet<T = string>(key: string): Promise<T | null> {
+    try {
+      return await this.readKey<T>(key)
+    } catch (e) {
+      this.log.error('Store operation failed', { error: e })
+      return null
+    }
+  }
+
+  async storeSet<T = string>(
+    key: string,
+    value: T,
+    options: StoreSetOptions = {},
+  ): Promise<void> {
+    try {
+      await this.storeLock.run(key, () => this.writeKey(key, value, options))
+    } catch (e) {
+      this.log.error('Store operation failed', { error: e })
+      return undefined
+    }
+  }
+
+  async storeDelete(key: string): Promise<boolean> {
+    try {
+      return await this.storeLock.run(key, async () => {
+        await this.initializeDB()
+        const removed = await this.db!.remove({ key }, { multi: true })
+        return removed > 0
+      })
+    } catch (e) {
+      this.log.error('Store operation failed', { error: e })
+      return false
+    }
+  }
+
+  async storeKeys(prefix: string = ''): Promise<string[]> {
+    try {
+      await this.initializeDB()
+      const docs = await this.db!.find({
+        key: { $regex: new RegExp(`^${escapeRegExp(prefix)}`) },
+      })
+      return docs
+        .filter((doc) => !isExpired(doc))
+        .map((doc) => doc.key)
+        .sort()
+    } catch (e) {
+      this.log.error('Store operation failed', { error: e })
+      return []
+    }
+  }
+
+  /**
+   * Reads the value, passes it to `updater` and stores the result, with no
+   * other store write on the same key in between. Unlike storeGet, a failed
+   * read rejects instead of passing null to `updater`.
+   */
+  async storeUpdate<T>(
+    key: string,
+    updater: (current: T | null) => T | Promise<T>,
+    options: StoreSetOptions = {},
+  ): Promise<T> {
+    return this.storeLock.run(key, async () => {
+      const next = await updater(await this.readKey<T>(key))
+      await this.writeKey(key, next, options)
+      return next
+    })
+  }
+
+  /**
+   * Stores `value` if the current value is `expected`, compared as canonical
+   * JSON so key order does not matter. A failed read rejects.
+   */
+  async storeCompareAndSet<T>(
+    key: string,
+    expected: T | null,
+    value: T,
+    options: StoreSetOptions = {},
+  ): Promise<boolean> {
+    return this.storeLock.run(key, async () => {
+      const current = await this.readKey<T>(key)
+      if (canonicalStringify(current) !== canonicalStringify(expected)) {
+        return false
+      }
+      await this.writeKey(key, value, options)
+      return true
+    })
+  }
+
+  storeNamespace(namespace: string): StoreNamespace {
+    return new StoreNamespace(this, namespace)
+  }
+
+  // Removes every expired key, returns how many were removed
+  async storePurgeExpired(): Promise<number> {
+    try {
+      await this.initializeDB()
+      return await this.db!.remove(
+        { expiresAt: { $lte: Date.now() } },
+        { multi: true },
+      )
+    } catch (e) {
+      this.log.error('Store operation failed', { error: e })
+      return 0
+    }
+  }
+
+  // Unlike storeGet, throws when the store cannot be read
+  private async readKey<T>(key: string): Promise<T | null> {
+    await this.initializeDB()
+    const doc = await this.db!.findOne({ key })
+    if (!doc || isExpired(doc)) return null
+    return doc[key]
+  }
+
+  private async writeKey<T>(
+    key: string,
+    value: T,
+    options: StoreSetOptions,
+  ): Promise<void> {
+    await this.initializeDB()
+    const doc: Record<string, unknown> = { [key]: value, key }
+    if (options.ttl) doc.expiresAt = Date.now() + options.ttl
+    await this.db!.update({ key }, doc, { upsert: true })
+    if (options.ttl) this.purgeExpiredSoon()
+  }
+
+  // Expired keys are only hidden by reads, writes with a TTL (such as
+  // message nonces) clear them out at most once every PURGE_INTERVAL ms
+  private purgeExpiredSoon(): void {
+    const now = Date.now()
+    if (now - this.lastPurge < PURGE_INTERVAL) return
+    this.lastPurge = now
+    void this.storePurgeExpired()
+  }
+
+  async fs(
+    method: keyof typeof fsPromises,
+    path: string,
+    ...args: any[]
+  ): Promise<any> {
+    if (this.taskNodeAdministered) {
+      return unwrap(await this.taskNodeClient.fs(method, path, ...args))
+    } else {
+      const fsMethod = fsPromises[method] as (...args: any[]) => Promise<any>
+      return fsMethod(path, ...args)
+    }
+  }
+
+  async fsStaking(
+    method: keyof typeof fsPromises,
+    path: string,
+    ...args: any[]
+  ): Promise<any> {
+    if (this.taskNodeAdministered) {
+      return unwrap(await this.taskNodeClient.fsStaking(method, path, ...args))
+    } else {
+      const fsMethod = fsPromises[method] as (...args: any[]) => Promise<any>
+      return fsMethod(path, ...args)
+    }
+  }
+  async fsWriteStream(imagepath: string): Promise<WriteStream | void> {
+    if (this.taskNodeAdministered) {
+      const result = await this.taskNodeClient.fsWriteStream(imagepath)
+      if (result.ok) return result.data
+    } else {
+      const writer = createWriteStream(imagepath)
+      return writer
+    }
+  }
+
+  async fsReadStream(imagepath: string): Promise<Buffer | void> {
+    if (this.taskNodeAdministered) {
+      const result = await this.taskNodeClient.fsReadStream(imagepath)
+      if (result.ok) return result.data
+    } else {
+      const file = readFileSync(imagepath)
+      return file
+    }
+  }
+
+  async payloadSigning(
+    body: Record<string, unknown>,
+    privateKey: Uint8Array | null = null,
+  ): Promise<string | void> {
+    const serialization = this.config.jsonSerialization
+    if (privateKey) {
+      const msg = new TextEncoder().encode(
+        stringifyForSigning(body, serialization),
+      )
+      const signedMessage = nacl.sign(msg, privateKey)
+      return await this.bs58Encode(signedMessage)
+    } else if (this.taskNodeAdministered) {
+      // The task node signs a string as it is, so the signature covers the
+      // canonical JSON whatever keys the body has
+      const result = await this.taskNodeClient.signData(
+        serialization === 'legacy' ? body : canonicalStringify(body),
+      )
+      if (result.ok) return result.data
+    } else {
+      const msg = new TextEncoder().encode(
+        stringifyForSigning(body, serialization),
+      )
+      const signedMessage = nacl.sign(
+        msg,
+        this.testingMainSystemAccount!.secretKey,
+      )
+
+      return await this.bs58Encode(signedMessage)
+    }
+  }
+
+  async bs58Encode(data: Uint8Array): Promise<string> {
+    return bs58.encode(data)
+  }
+
+  async bs58Decode(data: string): Promise<Uint8Array> {
+    return new Uint8Array(bs58.decode(data))
+  }
+
+  decodePayload(payload: Uint8Array): string {
+    return new TextDecoder().decode(payload)
+  }
+
+  async verifySignature(
+    signedMessage: string,
+    pubKey: string,
+  ): Promise<{ data?: string; error?: string }> {
+    if (this.taskNodeAdministered) {
+      const result = await this.taskNodeClient.verifySignedData(
+        signedMessage,
+        pubKey,
+      )
+      if (result.ok) return result.data
+      const { details } = result.error
+      return {
+        error: typeof details === 'string' ? details : result.error.message,
+      }
+    } else {
+      try {
+        const payload = nacl.sign.open(
+          await this.bs58Decode(signedMessage),
+          await this.bs58Decode(pubKey),
+        )
+        if (!payload) return { error: 'Invalid signature' }
+        return { data: this.decodePayload(payload) }
+      } catch (e) {
+        this.log.error('Signature verification failed', { error: e })
+        return { error: `Verification failed: ${e}` }
+      }
+    }
+  }
+
+  async getSlot(): Promise<number> {
+    if (this.taskNodeAdministered) {
+      const result = await this.taskNodeClient.getCurrentSlot()
+      if (result.ok) {
+        this.wrapperMetrics.currentSlot.set(result.data)
+        return result.data
+      } else {
+        this.log.error('Error getting slot', { error: result.error })
+        return 0 // or handle error appropriately
+      }
+    } else {
+      return 100
+    }
+  }
+
+  async getNodes(url: string) {
+    if (this.taskNodeAdministered) {
+      const result = await this.taskNodeClient.getNodes(url)
+      if (result.ok) return result.data
+    } else {
+      this.log.warn('Cannot call getNodes in testing mode')
+    }
+  }
+
+  async getRpcUrl(): Promise<string | void> {
+    if (this.taskNodeAdministered) {
+      const result = await this.taskNodeClient.getRpcUrl()
+      if (result.ok) return result.data
+    } else {
+      this.log.warn('Cannot call get URL in testing mode')
+    }
+  }
+
+  async getProgramAccounts() {
+    if (this.taskNodeAdministered) {
+      const result = await this.taskNodeClient.getProgramAccounts()
+      if (result.ok) return result.data
+    } else {
+      this.log.warn('Cannot call getProgramAccounts in testing mode')
+    }
+  }
+
+  async sendAndConfirmTransactionWrapper(
+    transaction: Transaction,
+    signers: Keypair[],
+  ): Promise<void | string> {
+    if (this.taskNodeAdministered) {
+      this.log.warn('Cannot call sendTransaction in testing mode')
+      return
+    }
+    const blockhash = (await this.connection!.getRecentBlockhash('finalized'))
+      .blockhash
+    transaction.recentBlockhash = blockhash
+    transaction.feePayer = new PublicKey(this.config.mainAccountPubkey)
+    const result = await this.taskNodeClient.sendAndConfirmTransactionWrapper(
+      transaction.serialize({
+        requireAllSignatures: false,
+        verifySignatures: false,
+      }),
+      signers,
+    )
+    if (result.ok) return result.data
+  }
+
+  async sendTransaction(
+    serviceNodeAccount: PublicKey,
+    beneficiaryAccount: PublicKey,
+    amount: number,
+  ): Promise<void | string> {
+    if (!this.taskNodeAdministered) {
+      this.log.warn('Cannot call sendTransaction in testing mode')
+      return
+    }
+    const result = await this.taskNodeClient.sendTransaction(
+      serviceNodeAccount,
+      beneficiaryAccount,
+      amount,
+    )
+    if (result.ok) return result.data
+  }
+
+  async claimReward(
+    stakePotAccount: PublicKey,
+    beneficiaryAccount: PublicKey,
+    claimerKeypair: Keypair,
+  ): Promise<void> {
+    if (this.taskNodeAdministered) {
+      this.log.warn('Cannot call sendTransaction in testing mode')
+      return
+    }
+    await this.taskNodeClient.claimReward(
+      stakePotAccount,
+      beneficiaryAccount,
+      claimerKeypair,
+    )
+  }
+
+  async stakeOnChain(
+    taskStateInfoPublicKey: PublicKey,
+    stakingAccKeypair: Keypair,
+    stakePotAccount: PublicKey,
+    stakeAmount: number,
+  ): Promise<void | string> {
+    if (this.taskNodeAdministered) {
+      const result = await this.taskNodeClient.stakeOnChain(
+        taskStateInfoPublicKey,
+        stakingAccKeypair,
+        stakePotAccount,
+        stakeAmount,
+      )
+      if (result.ok) return result.data
+    } else {
+      this.testingTaskState!.stake_list[
+        this.testingStakingSystemAccount!.publicKey.toBase58()
+      ] = stakeAmount
+      this.testingTaskState!.ip_address_list[
+        this.testingStakingSystemAccount!.publicKey.toBase58()
+      ] = 'http://127.0.0.1:3000'
+    }
+  }
+
+  async logMessage(
+    level: LogLevel,
+    message: string,
+    action: string,
+  ): Promise<boolean> {
+    switch (level) {
+      case LogLevel.Log:
+        this.log.info(message, { action })
+        break
+      case LogLevel.Warn:
+        this.log.warn(message, { action })
+        break
+      case LogLevel.Error:
+        this.log.error(message, { action })
+        break
+      default:
+        this.log.warn(
+          `Invalid log level: ${level}. The log levels can be log, warn or error`,
+        )
+        return false
+    }
+    return true
+  }
+
+  /**
+   * This logger function is used to log the task erros , warnings and logs on desktop-node
+   * @param {level} enum // Receive method ["Log", "Warn", "Error"]
+   enum LogLevel {
+   Log = 'log',
+   Warn = 'warn',
+   Error = 'error',
+   }
+   * @param {message} string // log, error or warning message
+   * @returns {boolean} // true if the message is logged successfully otherwise false
+   */
+
+  async logger(
+    level: LogLevel,
+    message: string,
+    action: string,
+  ): Promise<boolean> {
+    if (this.taskNodeAdministered) {
+      const result = await this.taskNodeClient.logger(level, message, action)
+      return result.ok && result.data
+    } else {
+      return await this.logMessage(level, message, action)
+    }
+  }
+
+  async checkSubmissionAndUpdateRound(
+    submissionValue: string = 'default',
+    round: number,
+  ): Promise<void> {
+    if (this.taskNodeAdministered) {
+      const result = await this.taskNodeClient.checkSubmissionAndUpdateRound(
+        submissionValue,
+        round,
+      )
+      if (result.ok) this.wrapperMetrics.submissions.inc()
+    } else {
+      this.wrapperMetrics.submissions.inc()
+      if (!this.testingTaskState!.submissions[round]) {
+        this.testingTaskState!.submissions[round] = {}
+      }
+      this.testingTaskState!.submissions[round][
+        this.testingStakingSystemAccount!.publicKey.toBase58()
+      ] = {
+        submission_value: submissionValue,
+        slot: 100,
+        round,
+      }
+    }
+  }
+
+  async getTaskState(options: TaskStateOptions): Promise<TaskState | null> {
+    if (this.taskNodeAdministered) {
+      const result = await this.taskNodeClient.getTaskState(options)
+      if (!result.ok) {
+        this.log.error('Error in getting task state', { error: result.error })
+        return null
+      }
+      return result.data
+    } else {
+      return this.testingTaskState
+    }
+  }
+  async getTaskStateById(
+    taskId: string,
+    task_type: TaskType,
+    options: TaskStateOptions,
+  ): Promise<TaskState | null> {
+    if (this.taskNodeAdministered) {
+      const result = await this.taskNodeClient.getTaskStateById(
+        taskId,
+        options,
+        task_type,
+      )
+      if (!result.ok) {
+        this.log.error('Error in getting task state', { error: result.error })
+        return null
+      }
+      return result.data
+    } else {
+      // get task state from K2
+      const connection = new Connection(this.config.k2NodeUrl, 'confirmed')
+      if (!options) options = {}
+      const {
+        is_submission_required = false,
+        is_distribution_required = false,
+        is_available_balances_required = false,
+        is_stake_list_required = false,
+      } = options
+      if (task_type === 'KOII') {
+        try {
+          const taskAccountInfo = await connection.getTaskAccountInfo(
+            new PublicKey(taskId),
+            is_submission_required,
+            is_distribution_required,
+            is_available_balances_required,
+            is_stake_list_required,
+            'base64',
+          )
+          if (!taskAccountInfo) {
+            this.log.error('Error getting task account info', { taskId })
+            return null
+          }
+          return await decodeTaskAccount(taskAccountInfo.data, 'KOII', options)
+        } catch (error) {
+          this.log.error('Error in fetching task state', { taskId, error })
+          return null
+        }
+      } else if (task_type === 'KPL') {
+        try {
+          const accountInfo = await connection.getAccountInfo(
+            new PublicKey(taskId),
+          )
+          if (!accountInfo) {
+            this.log.error('Error in getting task account info', { taskId })
+            return null
+          }
+          return await decodeTaskAccount(accountInfo.data, 'KPL', options)
+        } catch (error) {
+          this.log.error('Error in fetching task state', { taskId, error })
+          return null
+        }
+      } else {
+        throw new Error('Task type is required')
+      }
+    }
+  }
+
+  async getTaskLevelDBPath(): Promise<string> {
+    return this.getTaskDBPath()
+  }
+
+  async getTaskDBPath(): Promise<string> {
+    if (this.taskNodeAdministered) {
+      return responseOrError(await this.taskNodeClient.getTaskLevelDBPath())
+    } else {
+      return './KOIIDB'
+    }
+  }
+
+  async getBasePath(): Promise<string> {
+    if (this.taskNodeAdministered) {
+      return responseOrError(await this.taskNodeClient.getBasePath())
+    } else {
+      return './'
+    }
+  }
+
+  async getRound(): Promise<number> {
+    if (!this.taskNodeAdministered) return this.requireRound()
+    const result = await this.taskNodeClient.getRound()
+    if (result.ok) this.wrapperMetrics.currentRound.set(result.data)
+    return responseOrError(result)
+  }
+
+  // The round for callers that cannot go on without it, throws TaskNodeError
+  private async requireRound(): Promise<number> {
+    const round = this.taskNodeAdministered
+      ? unwrap(await this.taskNodeClient.getRound())
+      : 1
+    this.wrapperMetrics.currentRound.set(round)
+    return round
+  }
+
+  async defaultTaskSetup(): Promise<void> {
+    if (this.taskNodeAdministered) {
+      await this.taskNodeClient.defaultTaskSetup()
+    } else {
+      this.setupTestingState()
+    }
+  }
+
+  // Local testing accounts and task state, kept when already set up
+  private setupTestingState(): void {
+    if (this.testingTaskState) return
+    this.testingMainSystemAccount = new Keypair()
+    this.testingStakingSystemAccount = this.getTestingStakingWallet()
+    this.testingDistributionList = {}
+    this.testingTaskState = {
+      task_id: '',
+      task_name: 'DummyTestState',
+      task_manager: '',
+      is_allowlisted: false,
+      is_active: false,
+      task_audit_program: 'test',
+      stake_pot_account: '',
+      total_bounty_amount: 10000000000,
+      bounty_amount_per_round: 1000000000,
+      current_round: 0,
+      available_balances: {},
+      stake_list: {},
+      task_metadata: 'test',
+      task_description: 'Dummy Task state for testing flow',
+      submissions: {},
+      submissions_audit_trigger: {},
+      total_stake_amount: 50000000000,
+      minimum_stake_amount: 5000000000,
+      ip_address_list: {},
+      round_time: 600,
+      starting_slot: 0,
+      audit_window: 200,
+      submission_window: 200,
+      task_executable_network: 'IPFS',
+      distribution_rewards_submission: {},
+      distributions_audit_trigger: {},
+      distributions_audit_record: {},
+      task_vars: 'test',
+      koii_vars: 'test',
+      is_migrated: false,
+      migrated_to: '',
+      allowed_failed_distributions: 0,
+    }
+  }
+
+  async getTaskSubmissionInfo(
+    round: number,
+  ): Promise<TaskSubmissionState | null> {
+    if (this.taskNodeAdministered) {
+      const result = await this.taskNodeClient.getTaskSubmissionInfo(round)
+      if (!result.ok) return null
+      return result.data
+    } else {
+      return this.testingTaskState
+    }
+  }
+
+  async getSubmitterAccount(taskType?: TaskType): Promise<Keypair | null> {
+    if (this.taskNodeAdministered) {
+      const result = taskType
+        ? await this.taskNodeClient.getSubmitterAccount(taskType)
+        : await this.taskNodeClient.getSubmitterAccount()
+      if (!result.ok) return null
+      return Keypair.fromSecretKey(
+        Uint8Array.from(Object.values(result.data._keypair.secretKey)),
+      )
+    } else {
+      return this.testingStakingSystemAccount
+    }
+  }
+
+  async getMainAccountPubkey(): Promise<string | null> {
+    if (this.taskNodeAdministered) {
+      return this.config.mainAccountPubkey
+    } else {
+      return this.testingMainSystemAccount!.publicKey.toBase58()
+    }
+  }
+
+  async getTaskNodeVersion(): Promise<string> {
+    if (this.taskNodeAdministered) {
+      return responseOrError(await this.taskNodeClient.getTaskNodeVersion())
+    } else {
+      return '1.11.19'
+    }
+  }
+
+  /**
+   * Checks the task node bridge, the task DB and the K2 RPC connection, which
+   * the node cannot work without, and reads the round, slot and stake of
+   * this node. The node is healthy when the first three pass and ready when
+   * none fails. The task node, RPC and stake checks are skipped in testing
+   * mode.
+   */
+  async checkHealth(): Promise<HealthReport> {
+    return runHealthChecks({
+      taskNode: {
+        critical: true,
+        run: async () => {
+          if (!this.taskNodeAdministered) return { status: 'skip' }
+          const version = unwrap(await this.taskNodeClient.getTaskNodeVersion())
+          return { status: 'pass', details: { version } }
+        },
+      },
+      db: {
+        critical: true,
+        run: async () => {
+          const db = await this.getStorage()
+          const documents = await db.count({})
+          return {
+            status: 'pass',
+            details: { backend: this.config.storageBackend, documents },
+          }
+        },
+      },
+      rpc: {
+        critical: true,
+        run: async () => {
+          if (!this.taskNodeAdministered) return { status: 'skip' }
+          if (!this.connection) {
+            return { status: 'fail', error: 'RPC connection was not set up' }
+          }
+          const slot = await this.connection.getSlot()
+          return { status: 'pass', details: { slot } }
+        },
+      },
+      round: {
+        critical: false,
+        run: async () => {
+          const round = await this.requireRound()
+          return { status: 'pass', details: { round } }
+        },
+      },
+      slot: {
+        critical: false,
+        run: async () => {
+          // getSlot hides task node errors behind a 0
+          const slot = this.taskNodeAdministered
+            ? unwrap(await this.taskNodeClient.getCurrentSlot())
+            : await this.getSlot()
+          return { status: 'pass', details: { slot } }
+        },
+      },
+      stake: {
+        critical: false,
+        run: async () => {
+          // The testing state has no stake unless stakeOnChain was called
+          if (!this.taskNodeAdministered) return { status: 'skip' }
+          const [taskState, submitter] = await Promise.all([
+            this.getTaskState({ is_stake_list_required: true }),
+            this.getSubmitterAccount(),
+          ])
+          if (!taskState)
+            return { status: 'fail', error: 'Task state not found' }
+          if (!submitter) {
+            return { status: 'fail', error: 'Submitter account not found' }
+          }
+          const publicKey = submitter.publicKey.toBase58()
+          const stake = taskState.stake_list?.[publicKey] || 0
+          return stake > 0
+            ? { status: 'pass', details: { publicKey, stake } }
+            : {
+                status: 'fail',
+                details: { publicKey, stake },
+                error: 'This node is not staked on the task',
+              }
+        },
+      },
+    })
+  }
+
+  async auditSubmission(
+    candidatePubkey: PublicKey,
+    isValid: boolean,
+    voterKeypair: Keypair,
+    round: number,
+  ): Promise<void> {
+    if (this.taskNodeAdministered) {
+      await this.taskNodeClient.auditSubmission(candidatePubkey, isValid, round)
+    } else {
+      if (
+        this.testingTaskState!.submissions_audit_trigger[round] &&
+        this.testingTaskState!.submissions_audit_trigger[round][
+          candidatePubkey.toBase58()
+        ]
+      ) {
+        this.testingTaskState!.submissions_audit_trigger[round][
+          candidatePubkey.toBase58()
+        ].votes.push({
+          is_valid: isValid,
+          voter: voterKeypair.publicKey,
+          slot: 100,
+        })
+      } else {
+        this.testingTaskState!.submissions_audit_trigger[round] = {
+          [candidatePubkey.toBase58()]: {
+            trigger_by: this.testingStakingSystemAccount!.publicKey,
+            slot: 100,
+            votes: [],
+          },
+        }
+      }
+    }
+  }
+
+  async validateAndVoteOnNodes(
+    validate: (
+      submissionValue: string,
+      round: number,
+      nodePublicKey: string,
+      signal?: AbortSignal,
+    ) => Promise<boolean>,
+    round: number,
+    useRandomSampling?: boolean | ValidateAndVoteOptions,
+    uploadToIPFS = false,
+  ): Promise<void | string | VoteReport[]> {
+    const log = this.log.child({ round })
+    log.info('Voting on submissions')
+    let sampling: SamplingStrategy
+    let validationOptions: ValidationOptions = {}
+    if (typeof useRandomSampling === 'object') {
+      sampling = useRandomSampling.sampling ?? SamplingStrategies.random()
+      uploadToIPFS = useRandomSampling.uploadToIPFS ?? uploadToIPFS
+      validationOptions = useRandomSampling
+    } else {
+      sampling =
+        (useRandomSampling ?? true)
+          ? SamplingStrategies.random()
+          : SamplingStrategies.all()
+    }
+    let taskAccountDataJSON: TaskSubmissionState | null = null
+    try {
+      taskAccountDataJSON = await this.getTaskSubmissionInfo(round)
+    } catch (error) {
+      log.error('Error in getting submissions for the round', { error })
+    }
+    if (taskAccountDataJSON == null) {
+      log.info('No submissions found for the round')
+      return
+    }
+    const submissions = taskAccountDataJSON.submissions[round]
+    if (submissions == null) {
+      log.info(`No submissions found in round ${round}`)
+      return `No submissions found in round ${round}`
+    } else {
+      const keys = Object.keys(submissions)
+      log.debug('Submissions from last round', { submissions })
+
+      const submitterAccountKeyPair = await this.getSubmitterAccount()
+      const submitterPubkey = submitterAccountKeyPair!.publicKey.toBase58()
+
+      const sampled = await sampling({
+        round,
+        candidates: this.taskNodeAdministered
+          ? keys.filter((key) => key !== submitterPubkey)
+          : keys,
+        submissions,
+        auditTriggers:
+          taskAccountDataJSON.submissions_audit_trigger[round] || {},
+        selfPublicKey: submitterPubkey,
+        getStakeList: async () => {
+          const taskState = await this.getTaskState({
+            is_stake_list_required: true,
+          })
+          return taskState?.stake_list || {}
+        },
+        getPeerReputation: (publicKey) =>
+          this.reputation.getPeerReputation(publicKey),
+      })
+      log.info('Sampled candidates', { sampled, total: keys.length })
+
+      const reports: Record<string, VoteReport> = {}
+      for (const key of keys) {
+        reports[key] = skippedReport(
+          'submission',
+          round,
+          key,
+          key === submitterPubkey && this.taskNodeAdministered
+            ? 'own submission'
+            : 'not sampled',
+        )
+      }
+      // Set by the IPFS path, read when the report is built
+      const envelopeChecks: Record<
+        string,
+        { hashCheck: 'passed' | 'failed'; reason?: string }
+      > = {}
+
+      const candidates = sampled.filter((candidatePublicKey) => {
+        if (
+          candidatePublicKey === submitterPubkey &&
+          this.taskNodeAdministered
+        ) {
+          log.debug('Skipping own submission')
+          return false
+        }
+        return submissions[candidatePublicKey] != null
+      })
+
+      const validateCandidate = async (
+        candidatePublicKey: string,
+        signal: AbortSignal,
+      ): Promise<boolean> => {
+        const submission = submissions[candidatePublicKey]
+        log.debug('Validating submission', {
+          candidate: candidatePublicKey,
+          submission: submission.submission_value,
+        })
+
+        if (!uploadToIPFS) {
+          return validate(
+            submission.submission_value,
+            round,
+            candidatePublicKey,
+            signal,
+          )
+        }
+
+        // call the function to validate signature and get the hash of data
+        const cid = submission.submission_value
+
+        const data = await this.retrieveThroughHttpGateway(
+          cid,
+          submissionFileName(round),
+          signal,
+        )
+
+        const verification = await this.verifySignedSubmission(
+          data,
+          candidatePublicKey,
+          round,
+        )
+
+        envelopeChecks[candidatePublicKey] = verification.valid
+          ? { hashCheck: 'passed' }
+          : { hashCheck: 'failed', reason: verification.error }
+        if (!verification.valid) {
+          log.warn('Invalid submission envelope', {
+            candidate: candidatePublicKey,
+            error: verification.error,
+          })
+          return false
+        }
+        return validate(
+          verification.submission!,
+          round,
+          candidatePublicKey,
+          signal,
+        )
+      }
+
+      const vote = async (outcome: ValidationOutcome) => {
+        const candidatePublicKey = outcome.candidate
+        const envelopeCheck = envelopeChecks[candidatePublicKey]
+        const report = outcomeReport(
+          'submission',
+          round,
+          outcome,
+          envelopeCheck?.reason,
+        )
+        report.hashCheck = envelopeCheck?.hashCheck
+        reports[candidatePublicKey] = report
+        const candidateLog = log.child({ candidate: candidatePublicKey })
+        if (outcome.status === 'error') {
+          candidateLog.error('Validation failed with an error', {
+            error: outcome.error,
+          })
+          return
+        }
+        if (outcome.vote === undefined) {
+          candidateLog.warn('Not voting, validation timed out')
+          return
+        }
+        const isValid = outcome.vote
+        const candidateKeyPairPublicKey = new PublicKey(candidatePublicKey)
+        const submissions_audit_trigger =
+          taskAccountDataJSON!.submissions_audit_trigger[round]
+        const action = voteAction(
+          isValid,
+          !!submissions_audit_trigger?.[candidatePublicKey],
+        )
+
+        candidateLog.info(`Voting ${isValid}`, { vote: action })
+
+        try {
+          if (action !== 'none') {
+            await this.auditSubmission(
+              candidateKeyPairPublicKey,
+              isValid,
+              submitterAccountKeyPair!,
+              round,
+            )
+            recordVote(this.wrapperMetrics, 'submission', action, isValid)
+          }
+          report.action = action
+        } catch (err) {
+          candidateLog.error('Error sending audit vote', { error: err })
+          report.error = errorMessage(err)
+        }
+      }
+
+      await runValidations(
+        candidates,
+        validateCandidate,
+        vote,
+        validationOptions,
+        log,
+      )
+      return this.saveVoteReports(
+        'submission',
+        round,
+        keys.map((key) => reports[key]),
+      )
+    }
+  }
+
+  /**
+   * Reports written by the last `validateAndVoteOnNodes` or
+   * `validateAndVoteOnDistributionList` run for `round`
+   */
+  async getVoteReports(
+    round: number,
+    kind: VoteKind = 'submission',
+  ): Promise<VoteReport[]> {
+    return (await this.storeGet<VoteReport[]>(voteReportKey(kind, round))) || []
+  }
+
+  async getPeerReputation(publicKey: string): Promise<PeerReputation> {
+    return this.reputation.getPeerReputation(publicKey)
+  }
+
+  /**
+   * Records the submissions and audit outcomes of every round in the task
+   * state whose audit window has closed, i.e. up to `currentRound - 2`.
+   * Rounds already recorded are skipped, so this can run every round.
+   * @returns the rounds recorded by this call
+   */
+  async updatePeerReputation(currentRound?: number): Promise<number[]> {
+    currentRound = currentRound ?? (await this.requireRound())
+    const taskState = await this.getTaskState({
+      is_submission_required: true,
+      is_distribution_required: true,
+    })
+    if (taskState == null) {
+      this.log.error('Task state not found, reputation not updated')
+      return []
+    }
+    const recorded: number[] = []
+    const sources: Array<[VoteKind, SubmissionsPerRound, Record<string, any>]> =
+      [
+        [
+          'submission',
+          taskState.submissions || {},
+          taskState.submissions_audit_trigger || {},
+        ],
+        [
+          'distribution',
+          taskState.distribution_rewards_submission || {},
+          taskState.distributions_audit_trigger || {},
+        ],
+      ]
+    for (const [kind, submissionsPerRound, triggersPerRound] of sources) {
+      const rounds = Object.keys(submissionsPerRound)
+        .map(Number)
+        .filter((round) => round <= currentRound! - 2)
+        .sort((a, b) => a - b)
+      for (const round of rounds) {
+        const isNew = await this.reputation.recordRound({
+          round,
+          kind,
+          submitters: Object.keys(submissionsPerRound[round] || {}),
+          auditTriggers: triggersPerRound[round] || {},
+        })
+        if (isNew && !recorded.includes(round)) recorded.push(round)
+      }
+    }
+    return recorded.sort((a, b) => a - b)
+  }
+
+  private async saveVoteReports(
+    kind: VoteKind,
+    round: number,
+    reports: VoteReport[],
+  ): Promise<VoteReport[]> {
+    // storeUpdate rejects on store errors, storeSet would only log them. The
+    // votes are already sent, so a failed save does not fail the audit.
+    try {
+      await this.storeUpdate(voteReportKey(kind, round), () => reports)
+    } catch (error) {
+      this.log.error('Error saving vote reports', { round, error })
+    }
+    return reports
+  }
+
+  /**
+   * Builds the submissionValues file for `uploadToIPFS` tasks. The signature
+   * covers the submission hash, task id and round, so the file cannot be
+   * replayed in another round or task.
+   * @param data submission, objects are JSON encoded
+   */
+  async createSignedSubmission(
+    data: unknown,
+    round: number,
+  ): Promise<SubmissionEnvelope> {
+    const submission =
+      typeof data === 'string'
+        ? data
+        : stringifyForSigning(data, this.config.jsonSerialization)
+    const payload: SignedSubmissionPayload = {
+      version: SUBMISSION_ENVELOPE_VERSION,
+      taskId: this.config.taskId || '',
+      round,
+      hash: hashSubmission(submission),
+    }
+    const submitter = await this.getSubmitterAccount()
+    if (!submitter) throw new Error('Submitter account not found')
+    const signedMessage = await this.payloadSigning(
+      { ...payload },
+      submitter.secretKey,
+    )
+    if (!signedMessage) throw new Error('Failed to sign submission')
+    return { ...payload, submission, signedMessage }
+  }
+
+  async verifySignedSubmission(
+    envelope: string | SubmissionEnvelope | LegacySubmissionEnvelope,
+    candidatePublicKey: string,
+    round: number,
+  ): Promise<SubmissionVerification> {
+    const parsed = parseSubmissionEnvelope(envelope)
+    if (!parsed) return { valid: false, error: 'Malformed submission envelope' }
+    const signed = await this.verifySignature(
+      parsed.signedMessage,
+      candidatePublicKey,
+    )
+    if (signed.error || signed.data === undefined) {
+      return { valid: false, error: signed.error || 'Invalid signature' }
+    }
+    const error = checkSubmissionPayload(
+      signed.data,
+      parsed,
+      { taskId: this.config.taskId || '', round },
+      { acceptLegacy: this.config.acceptLegacySubmissions },
+    )
+    if (error) return { valid: false, error }
+    return { valid: true, submission: parsed.submission }
+  }
+
+  /**
+   * Signs `data` in an envelope bound to this task and a round, valid for a
+   * limited time and accepted once. Signs through the task node when
+   * administered, with the main account or `options.secretKey` otherwise.
+   * @returns the bs58 signed message, checked with `verifySignedMessage`
+   */
+  async signMessage<T>(
+    data: T,
+    options: SignMessageOptions = {},
+  ): Promise<string> {
+    const payload = createMessagePayload(data, {
+      taskId: this.config.taskId || '',
+      round: options.round ?? (await this.requireRound()),
+      ttl: options.ttl ?? 60000,
+      audience: options.audience,
+    })
+    const signedMessage = await this.payloadSigning(
+      { ...payload },
+      options.secretKey ?? null,
+    )
+    if (!signedMessage) throw new Error('Failed to sign message')
+    return signedMessage
+  }
+
+  /**
+   * Checks a message from `signMessage` against the signer's key, this task,
+   * the expected round and audience, and the clock. Its nonce is then kept in
+   * the task DB until the message expires, so a replay is rejected.
+   */
+  async verifySignedMessage<T = unknown>(
+    signedMessage: string,
+    publicKey: string,
+    options: VerifySignedMessageOptions = {},
+  ): Promise<SignedMessageVerification<T>> {
+    const clockSkew = options.clockSkew ?? 5000
+    const signed = await this.verifySignature(signedMessage, publicKey)
+    if (signed.error || signed.data === undefined) {
+      return { valid: false, error: signed.error || 'Invalid signature' }
+    }
+    const payload = parseMessagePayload<T>(signed.data)
+    if (!payload) return { valid: false, error: 'Malformed signed message' }
+    const error = checkMessagePayload(payload, {
+      taskId: this.config.taskId || '',
+      round: options.round,
+      audience: options.audience,
+      clockSkew,
+      maxTtl: options.maxTtl ?? 600000,
+    })
+    if (error) return { valid: false, error }
+
+    if (options.consumeNonce !== false) {
+      // Fails closed, a nonce that cannot be checked is never accepted
+      try {
+        const unused = await this.storeCompareAndSet(
+          messageNonceKey(publicKey, payload.nonce),
+          null,
+          payload.exp,
+          { ttl: Math.max(payload.exp - Date.now(), 0) + clockSkew },
+        )
+        if (!unused) return { valid: false, error: 'Message was already used' }
+      } catch (e) {
+        this.log.error('Could not record message nonce', { error: e })
+        return { valid: false, error: 'Nonce cache unavailable' }
+      }
+    }
+    return { valid: true, data: payload.data, payload }
+  }
+
+  fetchWithTimeout = (url: string, timeout = 60000): Promise<Response> => {
+    const controller = new AbortController()
+
+    return new Promise((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        controller?.abort()
+        reject(new Error('Request timed out'))
+      }, timeout)
+
+      fetch(url, { signal: controller.signal })
+        .then((response) => {
+          clearTimeout(timeoutId)
+          resolve(response)
+        })
+        .catch((error) => {
+          if (error.name === 'AbortError') {
+            reject(new Error('Request was aborted'))
+          } else {
+            reject(error)
+          }
+        })
+    })
+  }
+
+  async retrieveThroughHttpGateway(
+    cid: string,
+    fileName = '',
+    signal?: AbortSignal,
+  ): Promise<string> {
+    return this.contentRetriever.retrieveText(cid, fileName, signal)
+  }
+
+  async distributionListSubmissionOnChain(
+    round: number,
+  ): Promise<void | string> {
+    if (this.taskNodeAdministered) {
+      const result =
+        await this.taskNodeClient.distributionListSubmissionOnChain(round)
+      if (result.ok) return result.data
+    } else {
+      if (!this.testingTaskState!.distribution_rewards_submission[round]) {
+        this.testingTaskState!.distribution_rewards_submission[round] = {}
+      }
+
+      this.testingTaskState!.distribution_rewards_submission[round][
+        this.testingStakingSystemAccount!.publicKey.toBase58()
+      ] = {
+        submission_value:
+          this.testingStakingSystemAccount!.publicKey.toBase58(),
+        slot: 200,
+        round: 1,
+      }
+    }
+  }
+
+  async uploadDistributionList(
+    distributionList: Record<string, any>,
+    round: number,
+  ): Promise<boolean | null> {
+    if (this.taskNodeAdministered) {
+      const result = await this.taskNodeClient.uploadDistributionList(
+        distributionList,
+        round,
+      )
+      return result.ok ? result.data : null
+    } else {
+      if (!this.testingDistributionList![round]) {
+        this.testingDistributionList![round] = {}
+      }
+
+      this.testingDistributionList![round][
+        this.testingStakingSystemAccount!.publicKey.toBase58()
+      ] = Buffer.from(JSON.stringify(distributionList))
+      return true
+    }
+  }
+
+  async getTaskDistributionInfo(
+    round: number,
+  ): Promise<TaskDistributionInfo | null> {
+    if (this.taskNodeAdministered) {
+      const result = await this.taskNodeClient.getTaskDistributionInfo(round)
+      if (!result.ok) return null
+      return result.data
+    } else {
+      return this.testingTaskState
+    }
+  }
+
+  async distributionListAuditSubmission(
+    candidatePubkey: PublicKey,
+    isValid: boolean,
+    voterKeypair: Keypair,
+    round: number,
+  ): Promise<void> {
+    if (this.taskNodeAdministered) {
+      await this.taskNodeClient.distributionListAuditSubmission(
+        candidatePubkey,
+        isValid,
+        round,
+      )
+    } else {
+      if (
+        this.testingTaskState!.distributions_audit_trigger[round] &&
+        this.testingTaskState!.distributions_audit_trigger[round][
+          candidatePubkey.toBase58()
+        ]
+      ) {
+        this.testingTaskState!.distributions_audit_trigger[round][
+          candidatePubkey.toBase58()
+        ].votes.push({
+          is_valid: isValid,
+          voter: voterKeypair.publicKey,
+          slot: 100,
+        })
+      } else {
+        this.testingTaskState!.distributions_audit_trigger[round] = {
+          [candidatePubkey.toBase58()]: {
+            trigger_by: this.testingStakingSystemAccount!.publicKey,
+            slot: 100,
+            votes: [],
+          },
+        }
+      }
+    }
+  }
+
+  async validateAndVoteOnDistributionList(
+    validateDistribution: (
+      submissionValue: string,
+      round: number,
+      nodePublicKey: string,
+      signal?: AbortSignal,
+    ) => Promise<boolean>,
+    round: number,
+    //isPreviousRoundFailed?: boolean,
+    options: ValidationOptions = {},
+  ): Promise<void | string | VoteReport[]> {
+    const log = this.log.child({ round })
+    log.info('Voting on distribution lists')
+    //isPreviousRoundFailed = isPreviousRoundFailed ?? false
+    // let tasknodeVersionSatisfied = false
+    // const taskNodeVersion = await this.getTaskNodeVersion()
+    // if (semver.gte(taskNodeVersion, '1.11.19')) {
+    //   tasknodeVersionSatisfied = true
+    // }
+    let taskAccountDataJSON: TaskDistributionInfo | null = null
+    try {
+      taskAccountDataJSON = await this.getTaskDistributionInfo(round)
+    } catch (error) {
+      log.error('Error in getting distributions for the round', { error })
+    }
+    if (taskAccountDataJSON == null) {
+      log.info('No distribution submissions found for the round')
+      return
+    }
+    const submissions =
+      taskAccountDataJSON?.distribution_rewards_submission[round]
+    if (submissions == null || submissions == undefined) {
+      log.info(`No submisssions found in round ${round}`)
+      return `No submisssions found in round ${round}`
+    } else {
+      const keys = Object.keys(submissions)
+      log.debug('Distribution submissions from last round', { submissions })
+      const submitterAccountKeyPair = await this.getSubmitterAccount()
+      const submitterPubkey = submitterAccountKeyPair?.publicKey.toBase58()
+
+      const reports: Record<string, VoteReport> = {}
+      const candidates = keys.filter((candidatePublicKey) => {
+        if (
+          candidatePublicKey == submitterPubkey &&
+          this.taskNodeAdministered
+        ) {
+          log.debug('Skipping own distribution submission')
+          reports[candidatePublicKey] = skippedReport(
+            'distribution',
+            round,
+            candidatePublicKey,
+            'own submission',
+          )
+          return false
+        }
+        return true
+      })
+
+      const validateCandidate = async (
+        candidatePublicKey: string,
+        signal: AbortSignal,
+      ): Promise<boolean> => {
+        log.debug('Validating distribution submission', {
+          candidate: candidatePublicKey,
+          submission: submissions[candidatePublicKey].submission_value,
+        })
+        return validateDistribution(
+          submissions[candidatePublicKey].submission_value,
+          round,
+          candidatePublicKey,
+          signal,
+        )
+      }
+
+      const vote = async (outcome: ValidationOutcome) => {
+        const candidatePublicKey = outcome.candidate
+        const report = outcomeReport('distribution', round, outcome)
+        reports[candidatePublicKey] = report
+        const candidateLog = log.child({ candidate: candidatePublicKey })
+        if (outcome.status === 'error') {
+          candidateLog.error('Distribution validation failed with an error', {
+            error: outcome.error,
+          })
+          return
+        }
+        if (outcome.vote === undefined) {
+          candidateLog.warn('Not voting on distribution, validation timed out')
+          return
+        }
+        const isValid = outcome.vote
+        const candidateKeyPairPublicKey = new PublicKey(candidatePublicKey)
+        const distributions_audit_trigger =
+          taskAccountDataJSON!.distributions_audit_trigger[round]
+        const action = voteAction(
+          isValid,
+          !!distributions_audit_trigger?.[candidatePublicKey],
+        )
+
+        candidateLog.info(`Voting ${isValid} on distribution`, {
+          vote: action,
+        })
+
+        try {
+          if (action !== 'none') {
+            await this.distributionListAuditSubmission(
+              candidateKeyPairPublicKey,
+              isValid,
+              submitterAccountKeyPair!,
+              round,
+            )
+            recordVote(this.wrapperMetrics, 'distribution', action, isValid)
+          }
+          report.action = action
+        } catch (err) {
+          candidateLog.error('Error sending distribution audit vote', {
+            error: err,
+          })
+          report.error = errorMessage(err)
+        }
+      }
+
+      await runValidations(candidates, validateCandidate, vote, options, log)
+      return this.saveVoteReports(
+        'distribution',
+        round,
+        keys.map((key) => reports[key]),
+      )
+    }
+  }
+
+  async getDistributionList(
+    publicKey: string,
+    round: number,
+  ): Promise<any | null> {
+    this.log.debug('Getting distribution list', {
+      candidate: publicKey,
+      round,
+    })
+    if (this.taskNodeAdministered) {
+      const result = await this.taskNodeClient.getDistributionList(
+        publicKey,
+        round,
+      )
+      if (!result.ok) return null
+      return result.data
+    } else {
+      const submissionValAcc =
+        this.testingTaskState!.distribution_rewards_submission[round][
+          this.testingStakingSystemAccount!.publicKey.toBase58()
+        ].submission_value
+      return this.testingDistributionList![round][submissionValAcc]
+    }
+  }
+
+  /**
+   * @param options.strategy ranks the candidates, stake-weighted by default.
+   * Every node must use the same strategy.
+   */
+  async nodeSelectionDistributionList(
+    round: number,
+    isPreviousFailed: boolean,
+    options: NodeSelectionOptions = {},
+  ): Promise<string | void> {
+    const input = await this.loadDistributionSelection(round, options)
+    if (!input) return
+    if (input.submissions[round] == null) {
+      this.log.info('No submisssions found in N-1 round', { round })
+      return 'No submisssions found in N-1 round'
+    }
+    return selectDistributionNode(
+      round,
+      input.submissions,
+      input.distributionData,
+      isPreviousFailed,
+      [],
+      input.selection,
+    )
+  }
+
+  /**
+   * Checks that `publicKey` is the node that should have submitted the
+   * distribution list of `round`, by running the selection again with the
+   * same options. Only the fallback rank is accepted when the payout of the
+   * previous round failed, as the distribution audit record shows unless
+   * `isPreviousFailed` is given, and only the first rank otherwise. Stakes
+   * are read when checking, so a stake change since the selection can make
+   * it fail.
+   */
+  async verifySelectedNode(
+    round: number,
+    publicKey: string,
+    options: VerifySelectedNodeOptions = {},
+  ): Promise<boolean> {
+    const input = await this.loadDistributionSelection(round, options)
+    if (!input || input.submissions[round] == null) return false
+    const ranking = rankDistributionNodes(
+      round,
+      input.submissions,
+      input.distributionData,
+      [],
+      input.selection,
+    )
+    const isPreviousFailed =
+      options.isPreviousFailed ??
+      isPreviousPayoutFailed(round, input.distributionData)
+    if (isPreviousFailed === null) {
+      this.log.error('Distribution audit record not found', { round })
+      return false
+    }
+    const expected = pickFromRanking(ranking, isPreviousFailed)
+    return publicKey !== '' && publicKey === expected
+  }
+
+  // Reads what distribution node selection depends on, null when the task
+  // submissions or the stake list cannot be read
+  private async loadDistributionSelection(
+    round: number,
+    options: NodeSelectionOptions,
+  ): Promise<{
+    submissions: SubmissionsPerRound
+    distributionData: TaskDistributionInfo | null
+    selection: DistributionSelectionOptions
+  } | null> {
+    let taskAccountDataJSON: TaskSubmissionState | null = null
+    try {
+      taskAccountDataJSON = await this.getTaskSubmissionInfo(round)
+    } catch (error) {
+      this.log.error('Task submission not found', { round, error })
+      return null
+    }
+
+    if (taskAccountDataJSON == null) {
+      this.log.error('Task state not found', { round })
+      return null
+    }
+
+    const submissions = taskAccountDataJSON.submissions[round]
+    const submissionsPerRound: SubmissionsPerRound = {}
+    if (submissions == null) {
+      return {
+        submissions: submissionsPerRound,
+        distributionData: null,
+        selection: {},
+      }
+    }
+    submissionsPerRound[round] = submissions
+    const previousRounds = [round - 1, round - 2].filter((r) => r >= 0)
+    await Promise.all(
+      previousRounds.map(async (r) => {
+        try {
+          const roundSubmissions = await this.getTaskSubmissionInfo(r)
+          if (roundSubmissions && roundSubmissions.submissions[r]) {
+            submissionsPerRound[r] = roundSubmissions.submissions[r]
+          }
+        } catch (error) {
+          this.log.error('Error in getting submissions for the round', {
+            round: r,
+            error,
+          })
+        }
+      }),
+    )
+
+    let distributionData: TaskDistributionInfo | null = null
+    try {
+      distributionData = await this.getTaskDistributionInfo(round)
+    } catch (error) {
+      this.log.error('Error in getting distribution data', { round, error })
+    }
+
+    // Selecting with missing stakes would give a different node than on the
+    // other nodes, so the round is skipped instead
+    let stakeList: Record<string, number>
+    try {
+      const taskState = await this.getTaskState({
+        is_stake_list_required: true,
+      })
+      if (!taskState?.stake_list) {
+        this.log.error('Stake list not found', { round })
+        return null
+      }
+      stakeList = taskState.stake_list
+    } catch (error) {
+      this.log.error('Error in getting the stake list', { round, error })
+      return null
+    }
+
+    return {
+      submissions: submissionsPerRound,
+      distributionData,
+      selection: {
+        strategy: options.strategy,
+        stakeList,
+        serialization: this.config.jsonSerialization,
+        logger: this.log,
+      },
+    }
+  }
+
+  async getAverageSlotTime(): Promise<number> {
+    if (this.taskNodeAdministered) {
+      const result = await this.taskNodeClient.getAverageSlotTime()
+      if (!result.ok) {
+        this.log.error('Error getting average slot time', {
+          error: result.error,
+        })
+        return 400
+      }
+      return result.data
+    } else {
+      return 400
+    }
+  }
+
+  async payoutTrigger(round: number): Promise<void> {
+    if (this.taskNodeAdministered) {
+      const result = await this.taskNodeClient.payoutTrigger(round)
+      if (result.ok) this.wrapperMetrics.payoutTriggers.inc()
+    } else {
+      this.wrapperMetrics.payoutTriggers.inc()
+      this.log.warn(
+        'Payout Trigger only handles positive flows (Without audits)',
+      )
+
+      round = 1
+      const submissionValAcc =
+        this.testingDistributionList![round][
+          this.testingStakingSystemAccount!.publicKey.toBase58()
+        ].submission_value
+      this.testingTaskState!.available_balances =
+        this.testingDistributionList![round][submissionValAcc]
+    }
+  }
+
+  async selectAndGenerateDistributionList(
+    submitDistributionList: (round: number) => Promise<void>,
+    round: number,
+    isPreviousRoundFailed: boolean,
+    options: NodeSelectionOptions = {},
+  ): Promise<void> {
+    const log = this.log.child({ round })
+    const selectedNode = await this.nodeSelectionDistributionList(
+      round,
+      isPreviousRoundFailed,
+      options,
+    )
+    const submitPubKey = await this.getSubmitterAccount()
+    log.info('Selected distribution node', {
+      selectedNode,
+      submitter: submitPubKey?.publicKey.toBase58(),
+    })
+
+    if (!selectedNode || !submitPubKey) return
+
+    if (selectedNode === submitPubKey?.publicKey.toBase58()) {
+      log.info('This node was selected, submitting the distribution list')
+      this.wrapperMetrics.distributionSelectionsWon.inc()
+      await submitDistributionList(round)
+      const taskState = await this.getTaskState({})
+      if (taskState == null) {
+        log.error('Task state not found')
+        return
+      }
+      const avgSlotTime = await this.getAverageSlotTime()
+      if (avgSlotTime == null) {
+        log.error('Avg slot time not found')
+        return
+      }
+      setTimeout(
+        async () => {
+          await this.payoutTrigger(round)
+        },
+        (taskState.audit_window + taskState.submission_window) * avgSlotTime,
+      )
+    }
+  }
+  getTestingStakingWallet(): Keypair {
+    if (this.config.stakingWalletPath) {
+      const wallet = readFileSync(this.config.stakingWalletPath, 'utf-8')
+      return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(wallet)))
+    } else {
+      return new Keypair()
+    }
+  }
+}
+
+// Used by methods that have no failure value of their own to return
+function unwrap<T>(result: TaskNodeResult<T, TaskNodeError>): T {
+  if (!result.ok) throw result.error
+  return result.data
+}
+
+// For getters that have always handed back whatever the task node answered:
+// its failure answer as is, or `{ error }` when it did not answer
+function responseOrError<T>(result: TaskNodeResult<T, TaskNodeError>): T {
+  if (result.ok) return result.data
+  if (result.error.response !== undefined) return result.error.response as T
+  return { error: result.error } as T
+}
+
+/**
+ * Builds a wrapper with its own config, task node client, DB and connection.
+ * Nothing is started, unlike importing the package entry point, which also
+ * builds the default `namespaceWrapper` and task server.
+ */
+export function createNamespaceWrapper(
+  options: NamespaceWrapperOptions = {},
+): NamespaceWrapper {
+  return new NamespaceWrapper(options)
+}
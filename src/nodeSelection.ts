@@ -0,0 +1,236 @@
+import { createHash } from 'crypto'
+import { Submission, SubmissionsPerRound, TaskDistributionInfo } from './types'
+import { Logger } from './logger'
+import { JsonSerialization, hashJson } from './canonicalJson'
+
+export interface SelectionContext {
+  round: number
+  // Eligible candidates in submission order
+  candidates: string[]
+  // Submissions of the candidates in `round`
+  submissions: Record<string, Submission>
+  stakeList: Record<string, number>
+  // Hash of the round and the candidates' submissions, the same on every node
+  seed: string
+  serialization: JsonSerialization
+}
+
+/**
+ * Orders the candidates, the node that should submit first. Every node of
+ * a task must use the same strategy, and it must depend on the context
+ * alone, otherwise nodes select different submitters.
+ */
+export type SelectionStrategy = (context: SelectionContext) => string[]
+
+export interface DistributionSelectionOptions {
+  // SelectionStrategies.stakeWeighted() by default
+  strategy?: SelectionStrategy
+  // Stakes used by stake-aware strategies, none by default
+  stakeList?: Record<string, number>
+  // How submissions are serialized before hashing, canonical by default
+  serialization?: JsonSerialization
+  // Receives the selection's debug output, the wrapper passes its logger
+  logger?: Logger
+}
+
+/**
+ * Maps a seed and a label to a number in (0, 1), uniformly distributed and
+ * never exactly 0 or 1
+ */
+export function hashToUnit(seed: string, label: string): number {
+  const digest = createHash('sha256').update(`${seed}:${label}`).digest()
+  return (digest.readUIntBE(0, 6) + 1) / (2 ** 48 + 1)
+}
+
+function byKey(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+export const SelectionStrategies = {
+  /**
+   * Weighted order without replacement (Efraimidis-Spirakis keys drawn with
+   * hashToUnit), so a node ranks first with a probability proportional to
+   * its stake. Candidates with no stake come last, in hash order.
+   */
+  stakeWeighted(): SelectionStrategy {
+    return (context) =>
+      context.candidates
+        .map((candidate) => {
+          const stake = context.stakeList[candidate] || 0
+          const u = hashToUnit(context.seed, candidate)
+          return {
+            candidate,
+            u,
+            key: stake > 0 ? Math.log(u) / stake : -Infinity,
+          }
+        })
+        .sort(
+          (a, b) =>
+            b.key - a.key || b.u - a.u || byKey(a.candidate, b.candidate),
+        )
+        .map(({ candidate }) => candidate)
+  },
+
+  // Hash order, every candidate equally likely to rank first
+  uniform(): SelectionStrategy {
+    return (context) =>
+      context.candidates
+        .map((candidate) => ({
+          candidate,
+          u: hashToUnit(context.seed, candidate),
+        }))
+        .sort((a, b) => b.u - a.u || byKey(a.candidate, b.candidate))
+        .map(({ candidate }) => candidate)
+  },
+
+  /**
+   * The sum-of-character-codes distance between hashes used before
+   * stake-weighted selection, highest first, ties in submission order. Only
+   * meant for tasks whose nodes are not all upgraded yet.
+   */
+  legacy(): SelectionStrategy {
+    const calculateScore = (str: string): number =>
+      str.split('').reduce((acc, val) => acc + val.charCodeAt(0), 0)
+    return (context) => {
+      const values = context.candidates.map((key) => context.submissions[key])
+      const hashDigest = hashJson(values, context.serialization)
+      return context.candidates
+        .map((candidate, i) => {
+          const candidateHash = hashJson(
+            { [candidate]: values[i] },
+            context.serialization,
+          )
+          return {
+            candidate,
+            score: Math.abs(
+              calculateScore(hashDigest) - calculateScore(candidateHash),
+            ),
+          }
+        })
+        .sort((a, b) => b.score - a.score)
+        .map(({ candidate }) => candidate)
+    }
+  },
+}
+
+/**
+ * Orders the nodes that may submit the distribution list for a round.
+ * Candidates are the nodes that submitted in each of the last three rounds
+ * (or in `round` alone if there are none), minus the nodes that submitted a
+ * distribution in a round whose payout failed, minus `excludedNodes`.
+ * @param submissions submissions keyed by round, must contain `round`, `round - 1` and `round - 2` where available
+ */
+export function rankDistributionNodes(
+  round: number,
+  submissions: SubmissionsPerRound,
+  distributionData: TaskDistributionInfo | null,
+  excludedNodes: string[] = [],
+  options: DistributionSelectionOptions = {},
+): string[] {
+  const log = options.logger ?? new Logger()
+  const roundSubmissions = submissions[round] || {}
+  const latestRounds = [round, round - 1, round - 2].filter((r) => r >= 0)
+  const keySets = latestRounds.map(
+    (r) => new Set(Object.keys(submissions[r] || {})),
+  )
+
+  let keys =
+    keySets.length > 0
+      ? [...keySets[0]].filter((key) => keySets.every((set) => set.has(key)))
+      : []
+  if (keys.length == 0) {
+    log.debug('No common keys found in last 3 rounds', { round })
+    keys = Object.keys(roundSubmissions)
+  }
+  if (excludedNodes.length > 0) {
+    keys = keys.filter((key) => !excludedNodes.includes(key))
+  }
+
+  const audit_record = distributionData?.distributions_audit_record
+  if (audit_record && audit_record[round] == 'PayoutFailed') {
+    const submitterKeys = Object.keys(
+      distributionData!.distribution_rewards_submission[round] || {},
+    )
+    log.debug('Payout failed, leaving out its submitters', {
+      round,
+      submitters: submitterKeys,
+    })
+    keys = keys.filter((key) => !submitterKeys.includes(key))
+  }
+
+  log.debug('Distribution node candidates', {
+    round,
+    candidates: keys.length,
+    excluded: excludedNodes.length,
+  })
+
+  const serialization = options.serialization ?? 'canonical'
+  const candidateSubmissions: Record<string, Submission> = {}
+  for (const key of keys) candidateSubmissions[key] = roundSubmissions[key]
+  const strategy = options.strategy ?? SelectionStrategies.stakeWeighted()
+  return strategy({
+    round,
+    candidates: keys,
+    submissions: candidateSubmissions,
+    stakeList: options.stakeList ?? {},
+    seed: hashJson({ round, submissions: candidateSubmissions }, serialization),
+    serialization,
+  })
+}
+
+/**
+ * The node at the first rank submits. After a failed payout the node at
+ * the second rank does, or the only candidate when there is one.
+ * @returns the public key, or an empty string when the ranking is empty
+ */
+export function pickFromRanking(
+  ranking: string[],
+  isPreviousFailed: boolean,
+): string {
+  return ranking[Math.min(isPreviousFailed ? 1 : 0, ranking.length - 1)] ?? ''
+}
+
+/**
+ * Whether the payout of the round before `round` failed, in which case the
+ * node at the second rank submits
+ * @returns null when the audit record could not be read
+ */
+export function isPreviousPayoutFailed(
+  round: number,
+  distributionData: TaskDistributionInfo | null,
+): boolean | null {
+  if (!distributionData?.distributions_audit_record) return null
+  return (
+    distributionData.distributions_audit_record[round - 1] == 'PayoutFailed'
+  )
+}
+
+/**
+ * Picks the node that should submit the distribution list for a round, see
+ * rankDistributionNodes and pickFromRanking
+ * @returns the selected public key, or an empty string when no node is eligible
+ */
+export function selectDistributionNode(
+  round: number,
+  submissions: SubmissionsPerRound,
+  distributionData: TaskDistributionInfo | null,
+  isPreviousFailed: boolean,
+  excludedNodes: string[] = [],
+  options: DistributionSelectionOptions = {},
+): string {
+  const ranking = rankDistributionNodes(
+    round,
+    submissions,
+    distributionData,
+    excludedNodes,
+    options,
+  )
+  const selected = pickFromRanking(ranking, isPreviousFailed)
+  const log = options.logger ?? new Logger()
+  log.debug('Selected distribution node', {
+    round,
+    pubkey: selected,
+    rank: ranking.indexOf(selected),
+  })
+  return selected
+}
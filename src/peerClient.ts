@@ -0,0 +1,387 @@
+import { TaskState, TaskStateOptions } from './types'
+import {
+  PUBLIC_KEY_HEADER,
+  RequestSigner,
+  SIGNATURE_HEADER,
+  SignedResponsePayload,
+  createSignedRequestHeaders,
+  hashRequestSignature,
+  requestBodyMatches,
+} from './requestAuth'
+import { Logger } from './logger'
+
+export interface PeerClientSource extends RequestSigner {
+  getTaskState(options: TaskStateOptions): Promise<TaskState | null>
+  verifySignature(
+    signedMessage: string,
+    pubKey: string,
+  ): Promise<{ data?: string; error?: string }>
+}
+
+export interface PeerClientOptions {
+  // Per attempt timeout in milliseconds, 5000 by default
+  timeout?: number
+  // Extra attempts after a failed one, 1 by default
+  retries?: number
+  // Consecutive failed requests after which a peer is skipped, 2 by default
+  maxFailures?: number
+  // Milliseconds a failing peer is skipped for, 60000 by default
+  cooldown?: number
+  // Path of the task on a peer, `/task/${task_id}` by default
+  pathPrefix?: string
+  // Fail responses that are not signed by the peer, false by default
+  requireSignedResponses?: boolean
+  // Milliseconds the peer list is reused, 60000 by default
+  peerListTtl?: number
+  // The wrapper's logger when built by the wrapper
+  logger?: Logger
+}
+
+export interface Peer {
+  publicKey: string
+  url: string
+}
+
+export interface PeerStats {
+  successes: number
+  failures: number
+  consecutiveFailures: number
+  // Moving average of successful request latency in milliseconds
+  latencyMs: number | null
+  // Time until which the peer is skipped, 0 when it is not
+  cooldownUntil: number
+}
+
+export interface PeerRequest {
+  method?: string
+  // Route path and query string on the peer's task server
+  path: string
+  body?: unknown
+}
+
+export interface PeerResponse<T = unknown> {
+  peer: Peer
+  status: number
+  data: T
+  // Whether the peer signed the response and the signature checked out
+  signed: boolean
+  latencyMs: number
+}
+
+export class PeerRequestError extends Error {
+  constructor(
+    message: string,
+    public peer: Peer,
+    public status?: number,
+    // Network errors, timeouts and 5xx responses count against the peer
+    public retryable = true,
+  ) {
+    super(message)
+    this.name = 'PeerRequestError'
+  }
+}
+
+const LATENCY_SMOOTHING = 0.3
+
+function emptyStats(): PeerStats {
+  return {
+    successes: 0,
+    failures: 0,
+    consecutiveFailures: 0,
+    latencyMs: null,
+    cooldownUntil: 0,
+  }
+}
+
+// Success rate with one success and one failure assumed up front, so new
+// peers rank between reliable and failing ones, divided by latency
+function peerScore(stats: PeerStats): number {
+  const successRate =
+    (stats.successes + 1) / (stats.successes + stats.failures + 2)
+  return successRate / (1 + (stats.latencyMs ?? 1000) / 1000)
+}
+
+// The body of a GET is not sent, so it could not match the signed hash.
+// Checked before any peer is tried, it is not the peers' failure
+function checkRequest(request: PeerRequest): void {
+  const method = (request.method ?? 'GET').toUpperCase()
+  if (method === 'GET' && request.body !== undefined) {
+    throw new Error('GET requests cannot have a body')
+  }
+}
+
+/**
+ * Calls the task servers of other nodes found in the task's
+ * `ip_address_list`. Requests are signed for `requireSignature` routes and
+ * signed responses are checked against the peer's key. Peers are ranked by
+ * success rate and latency, and skipped for `cooldown` ms after
+ * `maxFailures` failed requests in a row.
+ */
+export class PeerClient {
+  private source: PeerClientSource
+  private timeout: number
+  private retries: number
+  private maxFailures: number
+  private cooldown: number
+  private pathPrefix: string | undefined
+  private requireSignedResponses: boolean
+  private peerListTtl: number
+  private log: Logger
+  private stats = new Map<string, PeerStats>()
+  private peerList: { peers: Promise<Peer[]>; time: number } | null = null
+
+  constructor(source: PeerClientSource, options: PeerClientOptions = {}) {
+    this.source = source
+    this.timeout = options.timeout ?? 5000
+    this.retries = Math.max(0, options.retries ?? 1)
+    this.maxFailures = Math.max(1, options.maxFailures ?? 2)
+    this.cooldown = options.cooldown ?? 60000
+    this.pathPrefix = options.pathPrefix
+    this.requireSignedResponses = options.requireSignedResponses ?? false
+    this.peerListTtl = options.peerListTtl ?? 60000
+    this.log = options.logger ?? new Logger()
+  }
+
+  /**
+   * Peers of the task other than this node, best ranked first. Peers in
+   * cooldown are left out unless `includeCoolingDown` is set.
+   */
+  async getPeers(includeCoolingDown = false): Promise<Peer[]> {
+    if (!this.peerList || Date.now() - this.peerList.time > this.peerListTtl) {
+      const peers = this.loadPeers()
+      this.peerList = { peers, time: Date.now() }
+      peers.catch(() => (this.peerList = null))
+    }
+    const now = Date.now()
+    return (await this.peerList.peers)
+      .filter(
+        (peer) =>
+          includeCoolingDown ||
+          this.getStats(peer.publicKey).cooldownUntil <= now,
+      )
+      .sort(
+        (a, b) =>
+          peerScore(this.getStats(b.publicKey)) -
+          peerScore(this.getStats(a.publicKey)),
+      )
+  }
+
+  getStats(publicKey: string): PeerStats {
+    return { ...(this.stats.get(publicKey) ?? emptyStats()) }
+  }
+
+  /**
+   * Sends a signed request to one peer, retrying network errors, timeouts
+   * and 5xx responses
+   * @throws PeerRequestError once all attempts failed, or an Error for a GET
+   * request with a body
+   */
+  async request<T = unknown>(
+    peer: Peer,
+    request: PeerRequest,
+  ): Promise<PeerResponse<T>> {
+    checkRequest(request)
+    let lastError: PeerRequestError | null = null
+    for (let attempt = 0; attempt <= this.retries; attempt++) {
+      try {
+        const response = await this.send<T>(peer, request)
+        this.recordSuccess(peer.publicKey, response.latencyMs)
+        return response
+      } catch (e) {
+        lastError =
+          e instanceof PeerRequestError
+            ? e
+            : new PeerRequestError(String(e), peer)
+        if (!lastError.retryable) break
+      }
+    }
+    if (lastError!.retryable) this.recordFailure(peer.publicKey)
+    throw lastError!
+  }
+
+  /**
+   * Tries the peers in rank order until one answers
+   * @throws PeerRequestError from the last peer tried, or an Error when there is none
+   */
+  async requestAny<T = unknown>(
+    request: PeerRequest,
+    options: { maxPeers?: number } = {},
+  ): Promise<PeerResponse<T>> {
+    checkRequest(request)
+    const peers = (await this.getPeers()).slice(0, options.maxPeers ?? Infinity)
+    if (peers.length === 0) throw new Error('No reachable peers')
+    let lastError: unknown
+    for (const peer of peers) {
+      try {
+        return await this.request<T>(peer, request)
+      } catch (e) {
+        lastError = e
+      }
+    }
+    throw lastError
+  }
+
+  /**
+   * Sends the request to every reachable peer
+   * @returns one entry per peer, with the response or the error
+   */
+  async requestAll<T = unknown>(
+    request: PeerRequest,
+  ): Promise<
+    Array<{ peer: Peer; response?: PeerResponse<T>; error?: PeerRequestError }>
+  > {
+    checkRequest(request)
+    const peers = await this.getPeers()
+    return Promise.all(
+      peers.map(async (peer) => {
+        try {
+          return { peer, response: await this.request<T>(peer, request) }
+        } catch (e) {
+          return { peer, error: e as PeerRequestError }
+        }
+      }),
+    )
+  }
+
+  private async loadPeers(): Promise<Peer[]> {
+    const [taskState, account] = await Promise.all([
+      this.source.getTaskState({}),
+      this.source.getSubmitterAccount(),
+    ])
+    if (!taskState) throw new Error('Task state unavailable')
+    const self = account?.publicKey.toBase58()
+    const prefix =
+      this.pathPrefix ?? (taskState.task_id ? `/task/${taskState.task_id}` : '')
+    return Object.entries(taskState.ip_address_list || {})
+      .filter(([publicKey, url]) => publicKey !== self && !!url)
+      .map(([publicKey, url]) => ({
+        publicKey,
+        url: `${url.replace(/\/+$/, '')}${prefix}`,
+      }))
+  }
+
+  private async send<T>(
+    peer: Peer,
+    request: PeerRequest,
+  ): Promise<PeerResponse<T>> {
+    const method = (request.method ?? 'GET').toUpperCase()
+    const headers = await createSignedRequestHeaders(this.source, {
+      method,
+      path: request.path,
+      body: request.body,
+    })
+    const hasBody = request.body !== undefined
+    const start = Date.now()
+    let response: Response
+    try {
+      response = await fetch(`${peer.url}${request.path}`, {
+        method,
+        headers: {
+          ...headers,
+          ...(hasBody ? { 'Content-Type': 'application/json' } : {}),
+        },
+        body: hasBody ? JSON.stringify(request.body) : undefined,
+        signal: AbortSignal.timeout(this.timeout),
+      })
+    } catch (e) {
+      const timedOut = e instanceof Error && e.name === 'TimeoutError'
+      throw new PeerRequestError(
+        timedOut
+          ? `Request to ${peer.url} timed out after ${this.timeout}ms`
+          : `Request to ${peer.url} failed: ${e instanceof Error ? e.message : e}`,
+        peer,
+      )
+    }
+    const latencyMs = Date.now() - start
+    if (!response.ok) {
+      throw new PeerRequestError(
+        `HTTP ${response.status} from ${peer.url}${request.path}`,
+        peer,
+        response.status,
+        response.status >= 500,
+      )
+    }
+    const text = await response.text()
+    let data: T
+    try {
+      data = text ? JSON.parse(text) : (undefined as T)
+    } catch (e) {
+      throw new PeerRequestError(
+        `Invalid JSON from ${peer.url}${request.path}`,
+        peer,
+        response.status,
+      )
+    }
+    const signed = await this.checkResponseSignature(
+      peer,
+      request.path,
+      response,
+      data,
+      headers[SIGNATURE_HEADER],
+    )
+    return { peer, status: response.status, data, signed, latencyMs }
+  }
+
+  private async checkResponseSignature(
+    peer: Peer,
+    path: string,
+    response: Response,
+    data: unknown,
+    requestSignature: string,
+  ): Promise<boolean> {
+    const publicKey = response.headers.get(PUBLIC_KEY_HEADER)
+    const signature = response.headers.get(SIGNATURE_HEADER)
+    if (!publicKey || !signature) {
+      if (!this.requireSignedResponses) return false
+      throw new PeerRequestError(`Unsigned response from ${peer.url}`, peer)
+    }
+    const fail = (reason: string) =>
+      new PeerRequestError(`${reason} from ${peer.url}`, peer, response.status)
+    if (publicKey !== peer.publicKey)
+      throw fail('Response signed by another key')
+    const verification = await this.source.verifySignature(signature, publicKey)
+    let payload: SignedResponsePayload | null = null
+    try {
+      payload = verification.data ? JSON.parse(verification.data) : null
+    } catch (e) {
+      payload = null
+    }
+    if (
+      !payload ||
+      payload.path !== path ||
+      !requestBodyMatches(payload.bodyHash, data) ||
+      payload.requestHash !== hashRequestSignature(requestSignature)
+    ) {
+      throw fail('Invalid response signature')
+    }
+    return true
+  }
+
+  private recordSuccess(publicKey: string, latencyMs: number): void {
+    const stats = this.stats.get(publicKey) ?? emptyStats()
+    stats.successes++
+    stats.consecutiveFailures = 0
+    stats.cooldownUntil = 0
+    stats.latencyMs =
+      stats.latencyMs === null
+        ? latencyMs
+        : stats.latencyMs * (1 - LATENCY_SMOOTHING) +
+          latencyMs * LATENCY_SMOOTHING
+    this.stats.set(publicKey, stats)
+  }
+
+  private recordFailure(publicKey: string): void {
+    const stats = this.stats.get(publicKey) ?? emptyStats()
+    stats.failures++
+    stats.consecutiveFailures++
+    if (stats.consecutiveFailures >= this.maxFailures) {
+      stats.cooldownUntil = Date.now() + this.cooldown
+      this.log.warn('Skipping unreachable peer', {
+        action: 'peerClient',
+        peer: publicKey,
+        cooldownMs: this.cooldown,
+      })
+    }
+    this.stats.set(publicKey, stats)
+  }
+}
@@ -0,0 +1,218 @@
+import { AuditTriggerState } from './types'
+import { KeyLock, KeyValueStore } from './store'
+import { getAuditOutcome } from './distributionCalculator'
+import { VoteKind } from './voteReport'
+
+export interface AuditRecord {
+  // Audits raised against the peer, split by outcome
+  failed: number
+  passed: number
+  undecided: number
+}
+
+export interface VoteRecord {
+  cast: number
+  // Votes on decided audits that matched or contradicted the outcome
+  withOutcome: number
+  againstOutcome: number
+}
+
+export interface PeerReputation {
+  publicKey: string
+  // Rounds in which the peer submitted, per kind
+  submissions: number
+  distributions: number
+  submissionAudits: AuditRecord
+  distributionAudits: AuditRecord
+  votes: VoteRecord
+  firstRound: number | null
+  lastRound: number | null
+}
+
+export interface RoundActivity {
+  round: number
+  kind: VoteKind
+  // Public keys that submitted in the round
+  submitters: string[]
+  auditTriggers: Record<string, AuditTriggerState>
+}
+
+function emptyAuditRecord(): AuditRecord {
+  return { failed: 0, passed: 0, undecided: 0 }
+}
+
+function emptyReputation(publicKey: string): PeerReputation {
+  return {
+    publicKey,
+    submissions: 0,
+    distributions: 0,
+    submissionAudits: emptyAuditRecord(),
+    distributionAudits: emptyAuditRecord(),
+    votes: { cast: 0, withOutcome: 0, againstOutcome: 0 },
+    firstRound: null,
+    lastRound: null,
+  }
+}
+
+/**
+ * Share of the peer's submissions and distributions that did not lose an
+ * audit, 1 for a peer with no history
+ */
+export function reputationScore(reputation: PeerReputation): number {
+  const total = reputation.submissions + reputation.distributions
+  const failed =
+    reputation.submissionAudits.failed + reputation.distributionAudits.failed
+  if (total === 0) return failed > 0 ? 0 : 1
+  return Math.max(0, 1 - failed / total)
+}
+
+/**
+ * Share of the peer's votes on decided audits that matched the outcome, 1
+ * for a peer that never voted on one
+ */
+export function voteAccuracy(reputation: PeerReputation): number {
+  const { withOutcome, againstOutcome } = reputation.votes
+  const decided = withOutcome + againstOutcome
+  return decided === 0 ? 1 : withOutcome / decided
+}
+
+// The update of each peer's reputation for one round, by public key
+function roundChanges(
+  activity: RoundActivity,
+): Map<string, (reputation: PeerReputation) => void> {
+  const { kind, submitters, auditTriggers } = activity
+  const changes = new Map<string, (reputation: PeerReputation) => void>()
+  const addChange = (
+    publicKey: string,
+    change: (reputation: PeerReputation) => void,
+  ) => {
+    const previous = changes.get(publicKey)
+    changes.set(publicKey, (reputation) => {
+      previous?.(reputation)
+      change(reputation)
+    })
+  }
+
+  for (const submitter of submitters) {
+    addChange(submitter, (reputation) => {
+      if (kind === 'submission') reputation.submissions++
+      else reputation.distributions++
+    })
+  }
+
+  for (const [accused, trigger] of Object.entries(auditTriggers)) {
+    const outcome = getAuditOutcome(trigger)
+    addChange(accused, (reputation) => {
+      const audits =
+        kind === 'submission'
+          ? reputation.submissionAudits
+          : reputation.distributionAudits
+      audits[outcome]++
+    })
+    for (const vote of trigger.votes) {
+      addChange(String(vote.voter), (reputation) => {
+        reputation.votes.cast++
+        if (outcome === 'undecided') return
+        if (vote.is_valid === (outcome === 'passed')) {
+          reputation.votes.withOutcome++
+        } else {
+          reputation.votes.againstOutcome++
+        }
+      })
+    }
+  }
+
+  return changes
+}
+
+// Marker of a recorded round, the peers updated so far while it is recorded
+type RoundMarker = true | string[]
+
+/**
+ * Accumulates audit outcomes and votes per peer across rounds. Each round
+ * and kind is recorded once, so only record rounds whose audit window has
+ * closed.
+ */
+export class ReputationTracker {
+  private store: KeyValueStore
+  private lock = new KeyLock()
+
+  constructor(store: KeyValueStore) {
+    this.store = store
+  }
+
+  /**
+   * Records the round under a lock, and marks it recorded once every peer
+   * was updated. A round that failed part-way is completed by the next call
+   * without counting the updated peers twice. The marker is written with
+   * compare-and-set, so a store error rejects instead of losing progress.
+   * @returns false when the round was already recorded
+   */
+  async recordRound(activity: RoundActivity): Promise<boolean> {
+    const markerKey = `recorded:${activity.kind}:${activity.round}`
+    return this.lock.run(markerKey, async () => {
+      const marker = await this.store.storeGet<RoundMarker>(markerKey)
+      if (marker === true) return false
+      // storeGet reads a failing store as null, confirm the marker before
+      // counting anything
+      let progress = marker || []
+      await this.setMarker(markerKey, marker, progress)
+      for (const [publicKey, change] of roundChanges(activity)) {
+        if (progress.includes(publicKey)) continue
+        await this.store.storeUpdate<PeerReputation>(
+          `peer:${publicKey}`,
+          (current) => {
+            const reputation = current || emptyReputation(publicKey)
+            change(reputation)
+            reputation.firstRound =
+              reputation.firstRound === null
+                ? activity.round
+                : Math.min(reputation.firstRound, activity.round)
+            reputation.lastRound =
+              reputation.lastRound === null
+                ? activity.round
+                : Math.max(reputation.lastRound, activity.round)
+            return reputation
+          },
+        )
+        const next = [...progress, publicKey]
+        await this.setMarker(markerKey, progress, next)
+        progress = next
+      }
+      await this.setMarker(markerKey, progress, true)
+      return true
+    })
+  }
+
+  async isRecorded(kind: VoteKind, round: number): Promise<boolean> {
+    const marker = await this.store.storeGet<RoundMarker>(
+      `recorded:${kind}:${round}`,
+    )
+    return marker === true
+  }
+
+  async getPeerReputation(publicKey: string): Promise<PeerReputation> {
+    return (
+      (await this.store.storeGet<PeerReputation>(`peer:${publicKey}`)) ||
+      emptyReputation(publicKey)
+    )
+  }
+
+  async getReputations(): Promise<PeerReputation[]> {
+    const keys = await this.store.storeKeys('peer:')
+    const reputations = await Promise.all(
+      keys.map((key) => this.store.storeGet<PeerReputation>(key)),
+    )
+    return reputations.filter((reputation) => reputation != null)
+  }
+
+  private async setMarker(
+    key: string,
+    expected: RoundMarker | null,
+    value: RoundMarker,
+  ): Promise<void> {
+    if (!(await this.store.storeCompareAndSet(key, expected, value))) {
+      throw new Error(`Marker ${key} changed while recording the round`)
+    }
+  }
+}
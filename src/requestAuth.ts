@@ -0,0 +1,295 @@
+import { createHash, randomBytes } from 'crypto'
+import { Request, RequestHandler } from 'express'
+import { TaskNode, TaskState } from './types'
+import { Logger } from './logger'
+import { JsonSerialization, hashJson } from './canonicalJson'
+import { WrapperConfig } from './config'
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by requireSignature once the signature is verified
+      signerPublicKey?: string
+    }
+  }
+}
+
+export const PUBLIC_KEY_HEADER = 'x-koii-public-key'
+export const SIGNATURE_HEADER = 'x-koii-signature'
+
+// What the client signs; binds the signature to one request
+export interface SignedRequestPayload {
+  taskId: string
+  method: string
+  path: string
+  bodyHash: string
+  timestamp: number
+  // Accepted once, the receiver remembers it until the signature expires
+  nonce: string
+}
+
+// What a node signs when answering a signed request
+export interface SignedResponsePayload {
+  path: string
+  bodyHash: string
+  timestamp: number
+  // sha256 of the request signature, ties the response to one request
+  requestHash: string
+}
+
+export type SignerAllowlist =
+  | 'stake_list'
+  | 'ip_address_list'
+  | 'any'
+  | ((publicKey: string, taskState: TaskState) => boolean | Promise<boolean>)
+
+export interface RequestAuthOptions {
+  // Who may call the route, nodes in the task's stake list by default
+  allow?: SignerAllowlist
+  // Smallest stake a signer needs, only checked with `allow: 'stake_list'`
+  minStake?: number
+  // Milliseconds a signature stays valid, 60000 by default
+  maxAge?: number
+  // Milliseconds the task state is reused between requests, 30000 by default
+  taskStateTtl?: number
+  // The node's logger by default
+  logger?: Logger
+}
+
+export interface RequestSigner {
+  readonly config: Pick<WrapperConfig, 'taskId'>
+  getSubmitterAccount(): Promise<{
+    publicKey: { toBase58(): string }
+    secretKey: Uint8Array
+  } | null>
+  payloadSigning(
+    body: Record<string, unknown>,
+    privateKey?: Uint8Array | null,
+  ): Promise<string | void>
+}
+
+export function hashRequestBody(
+  body: unknown,
+  serialization: JsonSerialization = 'canonical',
+): string {
+  return hashJson(body ?? {}, serialization)
+}
+
+// Signers still on legacy serialization hash the body as JSON.stringify does
+export function requestBodyMatches(bodyHash: string, body: unknown): boolean {
+  return (
+    bodyHash === hashRequestBody(body) ||
+    bodyHash === hashRequestBody(body, 'legacy')
+  )
+}
+
+export function hashRequestSignature(signature: string): string {
+  return createHash('sha256').update(signature).digest('hex')
+}
+
+async function sign(
+  signer: RequestSigner,
+  payload: SignedRequestPayload | SignedResponsePayload,
+): Promise<Record<string, string>> {
+  const account = await signer.getSubmitterAccount()
+  if (!account) throw new Error('No submitter account to sign with')
+  const signature = await signer.payloadSigning(
+    payload as unknown as Record<string, unknown>,
+    account.secretKey,
+  )
+  if (!signature) throw new Error('Could not sign the payload')
+  return {
+    [PUBLIC_KEY_HEADER]: account.publicKey.toBase58(),
+    [SIGNATURE_HEADER]: signature,
+  }
+}
+
+/**
+ * Headers that authenticate a request to a route guarded by
+ * requireSignature. The request is signed with the submitter account, the
+ * key other nodes know from the stake list.
+ * @param request.path the path and query string as the task's server receives it
+ * @throws Error for a GET request with a body, which would not be sent
+ */
+export async function createSignedRequestHeaders(
+  signer: RequestSigner,
+  request: { method: string; path: string; body?: unknown },
+): Promise<Record<string, string>> {
+  const method = request.method.toUpperCase()
+  if (method === 'GET' && request.body !== undefined) {
+    throw new Error('GET requests cannot have a body')
+  }
+  return sign(signer, {
+    taskId: signer.config.taskId || '',
+    method,
+    path: request.path,
+    bodyHash: hashRequestBody(request.body),
+    timestamp: Date.now(),
+    nonce: randomBytes(16).toString('hex'),
+  })
+}
+
+/**
+ * Express middleware that signs the JSON responses of the routes after it,
+ * so PeerClient can check who answered. Only requests that carry a request
+ * signature get a signed response.
+ */
+export function signResponses(signer: RequestSigner): RequestHandler {
+  return (req, res, next) => {
+    const requestSignature = header(req, SIGNATURE_HEADER)
+    if (!requestSignature) return next()
+    const json = res.json.bind(res)
+    res.json = (body) => {
+      sign(signer, {
+        path: req.originalUrl,
+        bodyHash: hashRequestBody(body),
+        timestamp: Date.now(),
+        requestHash: hashRequestSignature(requestSignature),
+      })
+        .then((headers) => {
+          res.set(headers)
+          json(body)
+        })
+        .catch(next)
+      return res
+    }
+    next()
+  }
+}
+
+function header(req: Request, name: string): string | undefined {
+  const value = req.headers[name]
+  return Array.isArray(value) ? value[0] : value
+}
+
+function parsePayload(data: string): SignedRequestPayload | null {
+  try {
+    const payload = JSON.parse(data)
+    if (
+      typeof payload?.taskId !== 'string' ||
+      typeof payload?.method !== 'string' ||
+      typeof payload?.path !== 'string' ||
+      typeof payload?.bodyHash !== 'string' ||
+      typeof payload?.timestamp !== 'number' ||
+      typeof payload?.nonce !== 'string' ||
+      !payload.nonce
+    ) {
+      return null
+    }
+    return payload
+  } catch (e) {
+    return null
+  }
+}
+
+// Store key recording that a signer's request nonce was used
+function requestNonceKey(publicKey: string, nonce: string): string {
+  return `signedRequestNonce:${publicKey}:${nonce}`
+}
+
+/**
+ * Express middleware that rejects requests without a valid signature from
+ * an allowed node. The signature must be for this task, and its nonce is
+ * kept in the task DB until the signature expires, so a replayed request is
+ * rejected. Verified requests get the signer in `req.signerPublicKey`.
+ * Responds 401 to missing, invalid, stale or replayed signatures, 403 to
+ * signers that are not allowed and 503 when the task state or the nonce
+ * cache cannot be read.
+ */
+export function requireSignature(
+  node: TaskNode,
+  options: RequestAuthOptions = {},
+): RequestHandler {
+  const allow = options.allow ?? 'stake_list'
+  const minStake = options.minStake ?? 0
+  const maxAge = options.maxAge ?? 60000
+  const taskStateTtl = options.taskStateTtl ?? 30000
+  const log = options.logger ?? node.log ?? new Logger()
+  let cached: { taskState: Promise<TaskState | null>; time: number } | null =
+    null
+
+  const getTaskState = (): Promise<TaskState | null> => {
+    if (!cached || Date.now() - cached.time > taskStateTtl) {
+      const taskState = node
+        .getTaskState({ is_stake_list_required: allow === 'stake_list' })
+        .catch(() => null)
+      cached = { taskState, time: Date.now() }
+    }
+    return cached.taskState
+  }
+
+  const isAllowed = async (
+    publicKey: string,
+    taskState: TaskState,
+  ): Promise<boolean> => {
+    if (allow === 'any') return true
+    if (allow === 'stake_list') {
+      const stake = taskState.stake_list?.[publicKey]
+      return stake !== undefined && stake >= minStake
+    }
+    if (allow === 'ip_address_list') {
+      return taskState.ip_address_list?.[publicKey] !== undefined
+    }
+    return allow(publicKey, taskState)
+  }
+
+  return async (req, res, next) => {
+    const publicKey = header(req, PUBLIC_KEY_HEADER)
+    const signature = header(req, SIGNATURE_HEADER)
+    if (!publicKey || !signature) {
+      return res.status(401).json({ error: 'Missing request signature' })
+    }
+    try {
+      const verification = await node.verifySignature(signature, publicKey)
+      const payload = verification.data ? parsePayload(verification.data) : null
+      if (
+        !payload ||
+        payload.taskId !== (node.config.taskId || '') ||
+        payload.method !== req.method ||
+        payload.path !== req.originalUrl ||
+        !requestBodyMatches(payload.bodyHash, req.body)
+      ) {
+        return res.status(401).json({ error: 'Invalid request signature' })
+      }
+      if (Math.abs(Date.now() - payload.timestamp) > maxAge) {
+        return res.status(401).json({ error: 'Request signature expired' })
+      }
+
+      if (allow !== 'any') {
+        const taskState = await getTaskState()
+        if (!taskState) {
+          cached = null
+          return res.status(503).json({ error: 'Task state unavailable' })
+        }
+        if (!(await isAllowed(publicKey, taskState))) {
+          return res.status(403).json({ error: 'Signer is not allowed' })
+        }
+      }
+
+      // Fails closed, a nonce that cannot be checked is never accepted
+      let unused: boolean
+      try {
+        unused = await node.storeCompareAndSet(
+          requestNonceKey(publicKey, payload.nonce),
+          null,
+          payload.timestamp,
+          { ttl: Math.max(payload.timestamp + maxAge - Date.now(), 1) },
+        )
+      } catch (error) {
+        log.error('Could not record request nonce', { error })
+        return res.status(503).json({ error: 'Nonce cache unavailable' })
+      }
+      if (!unused) {
+        return res.status(401).json({ error: 'Request was already used' })
+      }
+    } catch (error) {
+      log.error('Error authenticating request', {
+        action: 'requireSignature',
+        error,
+      })
+      return res.status(500).json({ error: 'Could not authenticate request' })
+    }
+    req.signerPublicKey = publicKey
+    next()
+  }
+}
@@ -0,0 +1,277 @@
+import { EventEmitter } from 'events'
+import { TaskState, TaskStateOptions } from './types'
+import { Logger } from './logger'
+
+export type RoundPhase = 'submission' | 'audit' | 'distribution'
+
+export interface RoundPhaseInfo {
+  round: number
+  phase: RoundPhase
+  slot: number
+  // Slots since the start of the round
+  slotInRound: number
+  // First slot of the next phase
+  phaseEndSlot: number
+}
+
+type RoundTiming = Pick<
+  TaskState,
+  'starting_slot' | 'round_time' | 'submission_window' | 'audit_window'
+>
+
+/**
+ * Works out which round and phase a slot falls in. The submission window
+ * opens at the start of each round, the audit window follows it and the
+ * rest of the round is left for distribution.
+ */
+export function getRoundPhase(
+  slot: number,
+  timing: RoundTiming,
+): RoundPhaseInfo {
+  const elapsed = Math.max(0, slot - timing.starting_slot)
+  const round = Math.floor(elapsed / timing.round_time)
+  const roundStart = timing.starting_slot + round * timing.round_time
+  const slotInRound = elapsed - round * timing.round_time
+  const auditStart = timing.submission_window
+  const distributionStart = timing.submission_window + timing.audit_window
+  let phase: RoundPhase
+  let phaseEnd: number
+  if (slotInRound < auditStart) {
+    phase = 'submission'
+    phaseEnd = auditStart
+  } else if (slotInRound < distributionStart) {
+    phase = 'audit'
+    phaseEnd = distributionStart
+  } else {
+    phase = 'distribution'
+    phaseEnd = timing.round_time
+  }
+  return {
+    round,
+    phase,
+    slot,
+    slotInRound,
+    phaseEndSlot: roundStart + phaseEnd,
+  }
+}
+
+export interface RoundSchedulerSource {
+  getSlot(): Promise<number>
+  getAverageSlotTime(): Promise<number>
+  getTaskState(options: TaskStateOptions): Promise<TaskState | null>
+  log?: Logger
+}
+
+export interface RoundSchedulerOptions {
+  // Longest time in ms between two slot reads, bounds how far drift can grow
+  maxSyncInterval?: number
+  // Weight of the newest slot time measurement when smoothing drift
+  driftSmoothing?: number
+  // Errors without an `error` listener go here, the source's logger by default
+  logger?: Logger
+}
+
+export type RoundSchedulerEvents = {
+  submissionOpen: [RoundPhaseInfo]
+  auditOpen: [RoundPhaseInfo]
+  distributionOpen: [RoundPhaseInfo]
+  roundEnd: [{ round: number; slot: number }]
+  error: [unknown]
+}
+
+const PHASES: RoundPhase[] = ['submission', 'audit', 'distribution']
+
+// The phase of `round` as it opens, at its first slot
+function phaseStart(
+  round: number,
+  phase: RoundPhase,
+  timing: RoundTiming,
+): RoundPhaseInfo {
+  const roundStart = timing.starting_slot + round * timing.round_time
+  const starts: Record<RoundPhase, number> = {
+    submission: 0,
+    audit: timing.submission_window,
+    distribution: timing.submission_window + timing.audit_window,
+  }
+  const index = PHASES.indexOf(phase)
+  const end =
+    index + 1 < PHASES.length ? starts[PHASES[index + 1]] : timing.round_time
+  return {
+    round,
+    phase,
+    slot: roundStart + starts[phase],
+    slotInRound: starts[phase],
+    phaseEndSlot: roundStart + end,
+  }
+}
+
+const PHASE_EVENTS: Record<
+  RoundPhase,
+  'submissionOpen' | 'auditOpen' | 'distributionOpen'
+> = {
+  submission: 'submissionOpen',
+  audit: 'auditOpen',
+  distribution: 'distributionOpen',
+}
+
+/**
+ * Follows the chain's slots and emits an event whenever the task enters a
+ * new phase or a round ends. Wake-ups are planned from the measured slot
+ * time and re-synced against `getSlot()` on every tick. Every phase crossed
+ * between two ticks is emitted in order, with the slot it opened at, so
+ * none is skipped when a tick comes late. Errors are emitted as `error`
+ * events, or logged when nothing listens, and never stop the scheduler.
+ */
+export class RoundScheduler extends EventEmitter<RoundSchedulerEvents> {
+  private source: RoundSchedulerSource
+  private maxSyncInterval: number
+  private driftSmoothing: number
+  private log: Logger
+  private timing: RoundTiming | null = null
+  private slotTime = 400
+  private lastSync: { slot: number; time: number } | null = null
+  private current: RoundPhaseInfo | null = null
+  private timer: NodeJS.Timeout | null = null
+  private running = false
+
+  constructor(
+    source: RoundSchedulerSource,
+    options: RoundSchedulerOptions = {},
+  ) {
+    super()
+    this.source = source
+    this.maxSyncInterval = options.maxSyncInterval ?? 10000
+    this.driftSmoothing = options.driftSmoothing ?? 0.2
+    this.log = options.logger ?? source.log ?? new Logger()
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return
+    this.running = true
+    try {
+      this.slotTime = (await this.source.getAverageSlotTime()) || this.slotTime
+    } catch (error) {
+      this.reportError(error)
+    }
+    await this.tick()
+  }
+
+  stop(): void {
+    this.running = false
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = null
+  }
+
+  getCurrentPhase(): RoundPhaseInfo | null {
+    return this.current
+  }
+
+  // Current estimate of milliseconds per slot
+  getSlotTime(): number {
+    return this.slotTime
+  }
+
+  private async tick(): Promise<void> {
+    if (!this.running) return
+    let delay = this.maxSyncInterval
+    try {
+      if (!this.timing) await this.loadTiming()
+      if (this.timing) {
+        const slot = await this.source.getSlot()
+        this.measureDrift(slot)
+        const info = getRoundPhase(slot, this.timing)
+        this.transition(info)
+        const slotsLeft = Math.max(1, info.phaseEndSlot - slot)
+        delay = Math.min(this.maxSyncInterval, slotsLeft * this.slotTime)
+      }
+    } catch (error) {
+      this.reportError(error)
+    }
+    if (!this.running) return
+    this.timer = setTimeout(() => this.tick(), delay)
+  }
+
+  // An `error` event without listeners would throw and end the tick loop
+  private reportError(error: unknown): void {
+    try {
+      if (this.listenerCount('error') > 0) {
+        this.emit('error', error)
+        return
+      }
+    } catch (listenerError) {
+      error = listenerError
+    }
+    this.log.error('Round scheduler error', { error })
+  }
+
+  // A throwing listener must not keep the other crossed phases from being
+  // emitted
+  private notify<K extends keyof RoundSchedulerEvents>(
+    event: K,
+    ...args: K extends keyof RoundSchedulerEvents
+      ? RoundSchedulerEvents[K]
+      : never
+  ): void {
+    try {
+      this.emit(event, ...args)
+    } catch (error) {
+      this.reportError(error)
+    }
+  }
+
+  private async loadTiming(): Promise<void> {
+    const taskState = await this.source.getTaskState({})
+    if (taskState == null) return
+    const { starting_slot, round_time, submission_window, audit_window } =
+      taskState
+    this.timing = { starting_slot, round_time, submission_window, audit_window }
+  }
+
+  private measureDrift(slot: number): void {
+    const now = Date.now()
+    if (this.lastSync && slot > this.lastSync.slot) {
+      const observed = (now - this.lastSync.time) / (slot - this.lastSync.slot)
+      this.slotTime =
+        this.slotTime * (1 - this.driftSmoothing) +
+        observed * this.driftSmoothing
+    }
+    this.lastSync = { slot, time: now }
+  }
+
+  private transition(info: RoundPhaseInfo): void {
+    const previous = this.current
+    if (!previous) {
+      this.current = info
+      this.notify(PHASE_EVENTS[info.phase], info)
+      return
+    }
+    const target = PHASES.indexOf(info.phase)
+    let round = previous.round
+    let index = PHASES.indexOf(previous.phase)
+    // A slot behind the current phase, from a lagging RPC node, is ignored
+    if (info.round < round || (info.round === round && target < index)) {
+      return
+    }
+    this.current = info
+    const timing = this.timing!
+    while (round < info.round || index < target) {
+      if (++index === PHASES.length) {
+        const slot = timing.starting_slot + (round + 1) * timing.round_time
+        this.notify('roundEnd', { round, slot })
+        round++
+        index = 0
+      }
+      const phase = PHASES[index]
+      this.notify(
+        PHASE_EVENTS[phase],
+        round === info.round && phase === info.phase
+          ? info
+          : phaseStart(round, phase, timing),
+      )
+    }
+    if (info.round !== previous.round) {
+      // Window sizes may have been updated by the task manager
+      this.timing = null
+    }
+  }
+}
@@ -0,0 +1,397 @@
+import { Keypair } from '@_koii/web3.js'
+import { AddressInfo } from 'net'
+import { randomBytes } from 'crypto'
+import { TaskState } from './types'
+import { TaskNodeEmulator } from './taskNodeEmulator'
+import { NamespaceWrapper, createNamespaceWrapper } from './namespaceWrapper'
+import { SamplingStrategies } from './auditSampling'
+import { getAuditOutcome } from './distributionCalculator'
+import { Logger } from './logger'
+
+export interface SimulationContext {
+  nodePublicKey: string
+  taskState: TaskState
+  getDistributionList(
+    publicKey: string,
+    round: number,
+  ): Record<string, number> | null
+  // The node's own wrapper, running in administered mode
+  wrapper: NamespaceWrapper
+}
+
+// The task's own functions, as they would be wired into a real task
+export interface SimulatedTask {
+  task(round: number, context: SimulationContext): Promise<string>
+  validateSubmission(
+    submissionValue: string,
+    round: number,
+    nodePublicKey: string,
+    context: SimulationContext,
+  ): Promise<boolean>
+  generateDistributionList(
+    round: number,
+    context: SimulationContext,
+  ): Promise<Record<string, number>>
+  validateDistribution(
+    distributionSubmitter: string,
+    round: number,
+    nodePublicKey: string,
+    context: SimulationContext,
+  ): Promise<boolean>
+}
+
+/**
+ * Scripted deviations from the honest flow. Each hook receives what an
+ * honest node would have produced and returns what this node does instead.
+ */
+export interface NodeBehavior {
+  // Return null to skip the submission
+  submission?: (value: string, round: number) => string | null
+  vote?: (honestVote: boolean, candidate: string, round: number) => boolean
+  distributionList?: (
+    list: Record<string, number>,
+    round: number,
+  ) => Record<string, number>
+  distributionVote?: (
+    honestVote: boolean,
+    candidate: string,
+    round: number,
+  ) => boolean
+}
+
+export const Misbehaviors: Record<
+  'badSubmission' | 'missingSubmission' | 'wrongDistribution' | 'falseVoter',
+  NodeBehavior
+> = {
+  badSubmission: { submission: () => 'invalid-submission' },
+  missingSubmission: { submission: () => null },
+  wrongDistribution: {
+    distributionList: (list) => {
+      const [first] = Object.keys(list)
+      return first ? { ...list, [first]: list[first] * 10 } : list
+    },
+  },
+  falseVoter: {
+    vote: () => false,
+    distributionVote: () => false,
+  },
+}
+
+export interface SimulatedNode {
+  index: number
+  keypair: Keypair
+  publicKey: string
+  behavior: NodeBehavior
+}
+
+export interface RoundSimulatorOptions {
+  nodes: number
+  task: SimulatedTask
+  // Scripted behaviour by node index, honest when absent
+  behaviors?: Record<number, NodeBehavior>
+  taskState?: Partial<TaskState>
+  stakePerNode?: number
+  // Share of stake removed from a node whose submission fails audit
+  slashPercentage?: number
+  // Parent of the nodes' loggers, warnings and errors on the console by
+  // default
+  logger?: Logger
+}
+
+export interface SimulatedRoundResult {
+  round: number
+  submissions: Record<string, string | null>
+  failedAudits: string[]
+  slashed: Record<string, number>
+  selectedNode: string
+  distributionList: Record<string, number> | null
+  distributionValid: boolean
+  payout: 'PayoutSuccessful' | 'PayoutFailed'
+}
+
+// The wrapper only votes on a valid submission once an audit was raised
+// against it, so every node audits twice per window to see the audits
+// raised by the others
+const AUDIT_PASSES = 2
+
+/**
+ * Runs full rounds (submission, audit votes, distribution selection,
+ * distribution audit and payout) for N virtual nodes. Each node is a
+ * `NamespaceWrapper` in administered mode, and all of them are served by one
+ * `TaskNodeEmulator`, so they share its task state. Votes, distribution node
+ * selection and payout go through the wrapper's own methods.
+ */
+export class RoundSimulator {
+  readonly nodes: SimulatedNode[]
+  readonly emulator: TaskNodeEmulator
+  readonly results: SimulatedRoundResult[] = []
+
+  private task: SimulatedTask
+  private slashPercentage: number
+  private logger: Logger
+  private secrets: string[]
+  private wrappers: NamespaceWrapper[] = []
+  private started: Promise<void> | null = null
+  private nextRound: number
+
+  constructor(options: RoundSimulatorOptions) {
+    if (options.nodes < 1) throw new Error('At least one node is required')
+    this.task = options.task
+    this.slashPercentage = options.slashPercentage ?? 0
+    this.logger = options.logger ?? new Logger({ level: 'warn' })
+    const stake = options.stakePerNode ?? 5000000000
+    this.nodes = Array.from({ length: options.nodes }, (_, index) => {
+      const keypair = new Keypair()
+      return {
+        index,
+        keypair,
+        publicKey: keypair.publicKey.toBase58(),
+        behavior: options.behaviors?.[index] || {},
+      }
+    })
+    this.secrets = this.nodes.map(() => randomBytes(16).toString('hex'))
+    const stakeList: Record<string, number> = {}
+    const ipAddressList: Record<string, string> = {}
+    for (const node of this.nodes) {
+      stakeList[node.publicKey] = stake
+      ipAddressList[node.publicKey] = `http://127.0.0.1:${3000 + node.index}`
+    }
+    this.emulator = new TaskNodeEmulator({
+      taskId: 'SimulatedTask',
+      secret: this.secrets[0],
+      submitterKeypair: this.nodes[0].keypair,
+      autoAdvance: false,
+      taskState: {
+        task_name: 'SimulatedTask',
+        task_description: 'Task state shared by simulated nodes',
+        total_bounty_amount: 100000000000,
+        stake_list: stakeList,
+        ip_address_list: ipAddressList,
+        total_stake_amount: stake * options.nodes,
+        minimum_stake_amount: stake,
+        ...options.taskState,
+      },
+    })
+    for (const node of this.nodes.slice(1)) {
+      this.emulator.addNode(this.secrets[node.index], node.keypair)
+    }
+    this.nextRound = this.emulator.taskState.current_round
+  }
+
+  get taskState(): TaskState {
+    return this.emulator.taskState
+  }
+
+  /**
+   * Starts the emulator on `port`, a free one by default, and builds the
+   * nodes' wrappers. `runRound()` calls it when needed.
+   */
+  start(port = 0): Promise<void> {
+    if (!this.started) {
+      this.started = this.emulator.listen(port).then((server) => {
+        const { port } = server.address() as AddressInfo
+        this.wrappers = this.nodes.map((node) =>
+          createNamespaceWrapper({
+            config: {
+              taskId: this.emulator.taskId,
+              secretKey: this.secrets[node.index],
+              taskNodePort: port,
+              storageBackend: 'memory',
+            },
+            logger: this.logger.child({ node: node.index }),
+          }),
+        )
+      })
+    }
+    return this.started
+  }
+
+  async close(): Promise<void> {
+    this.started = null
+    await this.emulator.close()
+  }
+
+  async runRounds(count: number): Promise<SimulatedRoundResult[]> {
+    const results: SimulatedRoundResult[] = []
+    for (let i = 0; i < count; i++) {
+      results.push(await this.runRound())
+    }
+    return results
+  }
+
+  async runRound(): Promise<SimulatedRoundResult> {
+    await this.start()
+    const state = this.emulator.taskState
+    const round = this.nextRound
+    const roundStart = state.starting_slot + round * state.round_time
+
+    this.moveTo(roundStart)
+    const submissions = await this.submissionPhase(round)
+
+    this.moveTo(roundStart + state.submission_window)
+    await this.auditPhase(round)
+    const failedAudits = Object.keys(state.submissions[round] || {}).filter(
+      (publicKey) =>
+        getAuditOutcome(state.submissions_audit_trigger[round]?.[publicKey]) ===
+        'failed',
+    )
+    const slashed = this.slash(failedAudits)
+
+    this.moveTo(roundStart + state.submission_window + state.audit_window)
+    const { selectedNode, distributionList } =
+      await this.distributionPhase(round)
+    await this.distributionAuditPhase(round)
+    const distributionValid =
+      distributionList !== null &&
+      getAuditOutcome(
+        state.distributions_audit_trigger[round]?.[selectedNode],
+      ) !== 'failed'
+
+    const trigger = this.nodes.find((n) => n.publicKey === selectedNode)
+    await this.wrappers[trigger?.index ?? 0].payoutTrigger(round)
+    const payout =
+      state.distributions_audit_record[round] === 'PayoutSuccessful'
+        ? 'PayoutSuccessful'
+        : 'PayoutFailed'
+
+    const result: SimulatedRoundResult = {
+      round,
+      submissions,
+      failedAudits,
+      slashed,
+      selectedNode,
+      distributionList,
+      distributionValid,
+      payout,
+    }
+    this.results.push(result)
+    this.nextRound = round + 1
+    return result
+  }
+
+  private moveTo(slot: number): void {
+    const slots = slot - this.emulator.getCurrentSlot()
+    if (slots > 0) this.emulator.advanceSlots(slots)
+  }
+
+  private context(node: SimulatedNode): SimulationContext {
+    return {
+      nodePublicKey: node.publicKey,
+      taskState: this.emulator.taskState,
+      getDistributionList: (publicKey, round) => {
+        const list = this.emulator.distributionLists[round]?.[publicKey]
+        return list ? JSON.parse(list.toString()) : null
+      },
+      wrapper: this.wrappers[node.index],
+    }
+  }
+
+  private async submissionPhase(round: number) {
+    const submissions: Record<string, string | null> = {}
+    for (const node of this.nodes) {
+      const honestValue = await this.task.task(round, this.context(node))
+      const value = node.behavior.submission
+        ? node.behavior.submission(honestValue, round)
+        : honestValue
+      submissions[node.publicKey] = value
+      if (value === null) continue
+      await this.wrappers[node.index].checkSubmissionAndUpdateRound(
+        value,
+        round,
+      )
+    }
+    return submissions
+  }
+
+  private async auditPhase(round: number): Promise<void> {
+    for (let pass = 0; pass < AUDIT_PASSES; pass++) {
+      for (const node of this.nodes) {
+        const context = this.context(node)
+        await this.wrappers[node.index].validateAndVoteOnNodes(
+          async (submissionValue, round, candidate) => {
+            const honestVote = await this.task.validateSubmission(
+              submissionValue,
+              round,
+              candidate,
+              context,
+            )
+            return node.behavior.vote
+              ? node.behavior.vote(honestVote, candidate, round)
+              : honestVote
+          },
+          round,
+          { sampling: SamplingStrategies.all() },
+        )
+      }
+    }
+  }
+
+  private slash(failedAudits: string[]): Record<string, number> {
+    const state = this.emulator.taskState
+    const slashed: Record<string, number> = {}
+    for (const pubkey of failedAudits) {
+      const amount = Math.floor(state.stake_list[pubkey] * this.slashPercentage)
+      if (amount <= 0) continue
+      state.stake_list[pubkey] -= amount
+      state.total_stake_amount -= amount
+      slashed[pubkey] = amount
+    }
+    return slashed
+  }
+
+  // Every node runs the selection, the nodes that find themselves selected
+  // submit their distribution list
+  private async distributionPhase(round: number): Promise<{
+    selectedNode: string
+    distributionList: Record<string, number> | null
+  }> {
+    const isPreviousFailed =
+      this.emulator.taskState.distributions_audit_record[round - 1] ===
+      'PayoutFailed'
+    let selectedNode = ''
+    let distributionList: Record<string, number> | null = null
+    for (const node of this.nodes) {
+      const wrapper = this.wrappers[node.index]
+      const selected = await wrapper.nodeSelectionDistributionList(
+        round,
+        isPreviousFailed,
+      )
+      if (!this.nodes.some((n) => n.publicKey === selected)) continue
+      selectedNode = selectedNode || (selected as string)
+      if (selected !== node.publicKey) continue
+      const honestList = await this.task.generateDistributionList(
+        round,
+        this.context(node),
+      )
+      const list = node.behavior.distributionList
+        ? node.behavior.distributionList(honestList, round)
+        : honestList
+      await wrapper.uploadDistributionList(list, round)
+      await wrapper.distributionListSubmissionOnChain(round)
+      distributionList = list
+    }
+    return { selectedNode, distributionList }
+  }
+
+  private async distributionAuditPhase(round: number): Promise<void> {
+    for (let pass = 0; pass < AUDIT_PASSES; pass++) {
+      for (const node of this.nodes) {
+        const context = this.context(node)
+        await this.wrappers[node.index].validateAndVoteOnDistributionList(
+          async (distributionSubmitter, round, candidate) => {
+            const honestVote = await this.task.validateDistribution(
+              distributionSubmitter,
+              round,
+              candidate,
+              context,
+            )
+            return node.behavior.distributionVote
+              ? node.behavior.distributionVote(honestVote, candidate, round)
+              : honestVote
+          },
+          round,
+        )
+      }
+    }
+  }
+}
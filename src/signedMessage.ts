@@ -0,0 +1,137 @@
+import { randomBytes } from 'crypto'
+
+export const SIGNED_MESSAGE_VERSION = 1
+
+// What the signer signs; binds the data to a task, a round and a time window
+export interface SignedMessagePayload<T = unknown> {
+  version: number
+  taskId: string
+  round: number
+  // Issued-at and expiry, milliseconds since the epoch
+  iat: number
+  exp: number
+  // Random value, a message is accepted once per signer and nonce
+  nonce: string
+  // Public key of the intended receiver, any receiver when absent
+  aud?: string
+  data: T
+}
+
+export interface SignMessageOptions {
+  // Round the message belongs to, the current round by default
+  round?: number
+  // Milliseconds the message stays valid, 60000 by default
+  ttl?: number
+  // Public key of the only node that should accept the message
+  audience?: string
+  // Key to sign with, the main account by default
+  secretKey?: Uint8Array
+}
+
+export interface VerifySignedMessageOptions {
+  // Round the message must belong to, any round when absent
+  round?: number
+  // Public key of this node. Messages addressed to another node, or to any
+  // node when this is absent, are rejected; messages with no audience pass.
+  audience?: string
+  // Tolerated clock difference between nodes in milliseconds, 5000 by default
+  clockSkew?: number
+  // Longest accepted validity window in milliseconds, 600000 by default
+  maxTtl?: number
+  // Record the nonce so the message cannot be accepted again, true by default
+  consumeNonce?: boolean
+}
+
+export interface SignedMessageVerification<T = unknown> {
+  valid: boolean
+  data?: T
+  payload?: SignedMessagePayload<T>
+  error?: string
+}
+
+export function createMessagePayload<T>(
+  data: T,
+  context: { taskId: string; round: number; ttl: number; audience?: string },
+  now = Date.now(),
+): SignedMessagePayload<T> {
+  const payload: SignedMessagePayload<T> = {
+    version: SIGNED_MESSAGE_VERSION,
+    taskId: context.taskId,
+    round: context.round,
+    iat: now,
+    exp: now + context.ttl,
+    nonce: randomBytes(16).toString('hex'),
+    data,
+  }
+  if (context.audience) payload.aud = context.audience
+  return payload
+}
+
+export function parseMessagePayload<T = unknown>(
+  signedData: string,
+): SignedMessagePayload<T> | null {
+  try {
+    const payload = JSON.parse(signedData)
+    if (
+      typeof payload?.version !== 'number' ||
+      typeof payload?.taskId !== 'string' ||
+      typeof payload?.round !== 'number' ||
+      typeof payload?.iat !== 'number' ||
+      typeof payload?.exp !== 'number' ||
+      typeof payload?.nonce !== 'string' ||
+      !payload.nonce ||
+      !('data' in payload)
+    ) {
+      return null
+    }
+    return payload
+  } catch (e) {
+    return null
+  }
+}
+
+/**
+ * Checks a signed payload against the task, round and audience the receiver
+ * expects, and against the clock. Does not look at the nonce.
+ * @returns an error message, or null if the payload is acceptable
+ */
+export function checkMessagePayload(
+  payload: SignedMessagePayload,
+  expected: {
+    taskId: string
+    round?: number
+    audience?: string
+    clockSkew: number
+    maxTtl: number
+  },
+  now = Date.now(),
+): string | null {
+  if (payload.version !== SIGNED_MESSAGE_VERSION) {
+    return `Unsupported message version ${payload.version}`
+  }
+  if (payload.taskId !== expected.taskId) {
+    return `Message was signed for task ${payload.taskId}`
+  }
+  if (expected.round !== undefined && payload.round !== expected.round) {
+    return `Message was signed for round ${payload.round}`
+  }
+  if (payload.aud !== undefined && payload.aud !== expected.audience) {
+    return `Message was signed for ${payload.aud}`
+  }
+  if (
+    payload.exp <= payload.iat ||
+    payload.exp - payload.iat > expected.maxTtl
+  ) {
+    return 'Invalid message validity window'
+  }
+  if (payload.iat > now + expected.clockSkew) {
+    return 'Message was issued in the future'
+  }
+  if (payload.exp < now - expected.clockSkew) return 'Message expired'
+  return null
+}
+
+// Store key recording that a signer's nonce was used
+export function messageNonceKey(publicKey: string, nonce: string): string {
+  return `signedMessageNonce:${publicKey}:${nonce}`
+}
@@ -0,0 +1,404 @@
+import Datastore from 'nedb-promises'
+import { randomBytes } from 'crypto'
+import { existsSync, renameSync, rmSync } from 'fs'
+import { StorageType, TaskStorage } from './types'
+import { Logger } from './logger'
+
+export const STORAGE_TYPES: StorageType[] = ['nedb', 'sqlite', 'memory']
+
+/**
+ * Opens the task database. NeDB uses `path` as its data file, SQLite stores
+ * to `${path}.sqlite` and copies an existing NeDB file at `path` into a new
+ * database, and memory keeps nothing on disk. The copy goes to a temporary
+ * file renamed once complete, so a failed copy is started over on the next
+ * open instead of leaving a partial database. The copy is logged to `logger`.
+ */
+export async function openStorage(
+  type: StorageType,
+  path: string,
+  logger: Logger = new Logger(),
+): Promise<TaskStorage> {
+  switch (type) {
+    case 'nedb':
+      return Datastore.create(path)
+    case 'memory':
+      return Datastore.create({ inMemoryOnly: true })
+    case 'sqlite': {
+      const file = `${path}.sqlite`
+      if (!existsSync(file) && existsSync(path)) {
+        const partial = `${file}.migrating`
+        rmSync(partial, { force: true })
+        const storage = new SqliteStorage(partial)
+        let copied: number
+        try {
+          copied = await migrateNeDBToStorage(path, storage)
+        } finally {
+          storage.close()
+        }
+        renameSync(partial, file)
+        logger.info(`Migrated ${copied} documents from ${path} to ${file}`)
+      }
+      return new SqliteStorage(file)
+    }
+    default:
+      throw new Error(
+        `Unknown storage type "${type}", expected one of ${STORAGE_TYPES.join(', ')}`,
+      )
+  }
+}
+
+// Copies every document of a NeDB data file into another storage backend
+export async function migrateNeDBToStorage(
+  nedbPath: string,
+  target: TaskStorage,
+): Promise<number> {
+  const source = Datastore.create({ filename: nedbPath })
+  const docs = await source.find<Record<string, any>>({})
+  for (const doc of docs) {
+    await target.update({ _id: doc._id }, doc, { upsert: true })
+  }
+  return docs.length
+}
+
+interface SqliteStatement {
+  run(...params: unknown[]): unknown
+  get(...params: unknown[]): any
+  all(...params: unknown[]): any[]
+}
+
+interface SqliteDatabase {
+  prepare(sql: string): SqliteStatement
+  exec(sql: string): void
+  close(): void
+}
+
+// better-sqlite3 when installed, otherwise the built-in node:sqlite
+function openSqliteDatabase(file: string): SqliteDatabase {
+  try {
+    // Optional peer dependency, only loaded when SQLite storage is used
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const Database = require('better-sqlite3')
+    return new Database(file)
+  } catch (e: any) {
+    if (e.code !== 'MODULE_NOT_FOUND') throw e
+  }
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const { DatabaseSync } = require('node:sqlite')
+    return new DatabaseSync(file)
+  } catch (e) {
+    throw new Error(
+      'SQLite storage needs the better-sqlite3 package or Node.js 22.5+ (node:sqlite)',
+    )
+  }
+}
+
+/**
+ * Document store on SQLite with the subset of the NeDB API tasks use.
+ * Documents are JSON rows; lookups by `_id`, `key`, a `key` prefix regex or
+ * an `expiresAt` bound use an index, other queries are matched in memory.
+ */
+export class SqliteStorage implements TaskStorage {
+  private db: SqliteDatabase
+
+  constructor(file: string) {
+    this.db = openSqliteDatabase(file)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS documents (
+        _id TEXT PRIMARY KEY,
+        key TEXT,
+        doc TEXT NOT NULL,
+        expiresAt INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS documents_key ON documents (key);
+    `)
+    // Databases created before the expiresAt column
+    const columns = this.db.prepare('PRAGMA table_info(documents)').all()
+    if (!columns.some((column) => column.name === 'expiresAt')) {
+      this.db.exec(`
+        ALTER TABLE documents ADD COLUMN expiresAt INTEGER;
+        UPDATE documents SET expiresAt = json_extract(doc, '$.expiresAt');
+      `)
+    }
+    this.db.exec(
+      'CREATE INDEX IF NOT EXISTS documents_expires_at ON documents (expiresAt)',
+    )
+  }
+
+  async insert<T extends Record<string, any>>(
+    doc: T,
+  ): Promise<T & { _id: string }> {
+    const saved = { ...doc, _id: doc._id ?? newId() }
+    this.write(saved)
+    return saved
+  }
+
+  async find(query: Record<string, any> = {}): Promise<any[]> {
+    return this.candidates(query).filter((doc) => matchesQuery(doc, query))
+  }
+
+  async findOne(query: Record<string, any> = {}): Promise<any | null> {
+    return (await this.find(query))[0] ?? null
+  }
+
+  async count(query: Record<string, any> = {}): Promise<number> {
+    return (await this.find(query)).length
+  }
+
+  async update(
+    query: Record<string, any>,
+    update: Record<string, any>,
+    options: { upsert?: boolean; multi?: boolean } = {},
+  ): Promise<number> {
+    let matches = await this.find(query)
+    if (!options.multi) matches = matches.slice(0, 1)
+    if (matches.length === 0) {
+      if (!options.upsert) return 0
+      const base = hasModifiers(update) ? stripOperators(query) : {}
+      await this.insert(applyUpdate(base, update))
+      return 1
+    }
+    this.transaction(() => {
+      for (const doc of matches) {
+        this.write({ ...applyUpdate(doc, update), _id: doc._id })
+      }
+    })
+    return matches.length
+  }
+
+  async remove(
+    query: Record<string, any>,
+    options: { multi?: boolean } = {},
+  ): Promise<number> {
+    let matches = await this.find(query)
+    if (!options.multi) matches = matches.slice(0, 1)
+    const statement = this.db.prepare('DELETE FROM documents WHERE _id = ?')
+    this.transaction(() => {
+      for (const doc of matches) statement.run(doc._id)
+    })
+    return matches.length
+  }
+
+  close(): void {
+    this.db.close()
+  }
+
+  // Rows the indexes narrow the query to, `find` matches them in memory
+  private candidates(query: Record<string, any>): any[] {
+    const indexed = indexedCondition(query)
+    const rows: Array<{ doc: string }> = indexed
+      ? this.db
+          .prepare(`SELECT doc FROM documents WHERE ${indexed.where}`)
+          .all(...indexed.params)
+      : this.db.prepare('SELECT doc FROM documents').all()
+    return rows.map((row) => JSON.parse(row.doc))
+  }
+
+  private write(doc: Record<string, any>): void {
+    this.db
+      .prepare(
+        'INSERT OR REPLACE INTO documents (_id, key, doc, expiresAt) VALUES (?, ?, ?, ?)',
+      )
+      .run(
+        doc._id,
+        typeof doc.key === 'string' ? doc.key : null,
+        JSON.stringify(doc),
+        typeof doc.expiresAt === 'number' ? doc.expiresAt : null,
+      )
+  }
+
+  private transaction(fn: () => void): void {
+    this.db.exec('BEGIN')
+    try {
+      fn()
+      this.db.exec('COMMIT')
+    } catch (e) {
+      this.db.exec('ROLLBACK')
+      throw e
+    }
+  }
+}
+
+/**
+ * The part of a query the indexed columns can answer. Key prefixes use GLOB,
+ * which unlike LIKE is case sensitive and so can use the BINARY index.
+ */
+function indexedCondition(
+  query: Record<string, unknown>,
+): { where: string; params: unknown[] } | null {
+  if (typeof query._id === 'string') {
+    return { where: '_id = ?', params: [query._id] }
+  }
+  if (typeof query.key === 'string') {
+    return { where: 'key = ?', params: [query.key] }
+  }
+  const prefix = regexPrefix(query.key)
+  if (prefix) return { where: 'key GLOB ?', params: [`${prefix}*`] }
+  const expiresAt = query.expiresAt
+  if (isOperatorObject(expiresAt)) {
+    if (typeof expiresAt.$lte === 'number') {
+      return { where: 'expiresAt <= ?', params: [expiresAt.$lte] }
+    }
+    if (typeof expiresAt.$lt === 'number') {
+      return { where: 'expiresAt < ?', params: [expiresAt.$lt] }
+    }
+  }
+  return null
+}
+
+/**
+ * The literal text every match of an anchored regex condition starts with,
+ * cut before GLOB wildcards. Null when the condition is not a regex or may
+ * match without a fixed prefix.
+ */
+function regexPrefix(condition: unknown): string | null {
+  if (isOperatorObject(condition) && Object.keys(condition).length === 1) {
+    condition = condition.$regex
+  }
+  if (typeof condition === 'string') condition = new RegExp(condition)
+  if (!(condition instanceof RegExp)) return null
+  const { source, flags } = condition
+  if (!source.startsWith('^') || source.includes('|')) return null
+  if (flags.includes('i') || flags.includes('m')) return null
+  let prefix = ''
+  let i = 1
+  while (i < source.length) {
+    const char = source[i]
+    if (char === '\\' && /[^0-9A-Za-z]/.test(source[i + 1] ?? 'a')) {
+      prefix += source[i + 1]
+      i += 2
+    } else if ('.*+?()[]{}^$\\'.includes(char)) {
+      break
+    } else {
+      prefix += char
+      i++
+    }
+  }
+  // The last character is optional before these quantifiers
+  if (i < source.length && '*?{'.includes(source[i])) {
+    prefix = prefix.slice(0, -1)
+  }
+  const wildcard = prefix.search(/[*?[]/)
+  if (wildcard >= 0) prefix = prefix.slice(0, wildcard)
+  return prefix || null
+}
+
+function newId(): string {
+  return randomBytes(8).toString('hex')
+}
+
+function getField(doc: any, path: string): any {
+  return path
+    .split('.')
+    .reduce((value, part) => (value == null ? undefined : value[part]), doc)
+}
+
+function isOperatorObject(value: unknown): value is Record<string, any> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof RegExp) &&
+    Object.keys(value).some((key) => key.startsWith('$'))
+  )
+}
+
+function matchesValue(value: any, condition: any): boolean {
+  if (condition instanceof RegExp) {
+    return typeof value === 'string' && condition.test(value)
+  }
+  if (!isOperatorObject(condition)) {
+    if (Array.isArray(value) && !Array.isArray(condition)) {
+      return value.some((item) => matchesValue(item, condition))
+    }
+    return JSON.stringify(value) === JSON.stringify(condition)
+  }
+  return Object.entries(condition).every(([operator, operand]) => {
+    switch (operator) {
+      case '$eq':
+        return matchesValue(value, operand)
+      case '$ne':
+        return !matchesValue(value, operand)
+      case '$gt':
+        return value != null && value > operand
+      case '$gte':
+        return value != null && value >= operand
+      case '$lt':
+        return value != null && value < operand
+      case '$lte':
+        return value != null && value <= operand
+      case '$in':
+        return (operand as any[]).some((item) => matchesValue(value, item))
+      case '$nin':
+        return !(operand as any[]).some((item) => matchesValue(value, item))
+      case '$exists':
+        return (value !== undefined) === !!operand
+      case '$regex':
+        return typeof value === 'string' && new RegExp(operand).test(value)
+      default:
+        throw new Error(`Unsupported query operator ${operator}`)
+    }
+  })
+}
+
+// Matches NeDB/MongoDB style queries: field paths, comparison operators, $and, $or and $not
+export function matchesQuery(doc: any, query: Record<string, any>): boolean {
+  return Object.entries(query).every(([field, condition]) => {
+    switch (field) {
+      case '$and':
+        return (condition as any[]).every((q) => matchesQuery(doc, q))
+      case '$or':
+        return (condition as any[]).some((q) => matchesQuery(doc, q))
+      case '$not':
+        return !matchesQuery(doc, condition)
+      default:
+        return matchesValue(getField(doc, field), condition)
+    }
+  })
+}
+
+function hasModifiers(update: Record<string, any>): boolean {
+  return Object.keys(update).some((key) => key.startsWith('$'))
+}
+
+function stripOperators(query: Record<string, any>): Record<string, any> {
+  const doc: Record<string, any> = {}
+  for (const [field, value] of Object.entries(query)) {
+    if (!field.startsWith('$') && !isOperatorObject(value)) doc[field] = value
+  }
+  return doc
+}
+
+// Replacement documents keep the _id, modifiers support $set, $unset, $inc and $push
+function applyUpdate(
+  doc: Record<string, any>,
+  update: Record<string, any>,
+): Record<string, any> {
+  if (!hasModifiers(update)) {
+    return doc._id === undefined ? { ...update } : { ...update, _id: doc._id }
+  }
+  const next = JSON.parse(JSON.stringify(doc))
+  for (const [modifier, fields] of Object.entries(update)) {
+    for (const [field, value] of Object.entries(
+      fields as Record<string, any>,
+    )) {
+      switch (modifier) {
+        case '$set':
+          next[field] = value
+          break
+        case '$unset':
+          delete next[field]
+          break
+        case '$inc':
+          next[field] = (next[field] || 0) + value
+          break
+        case '$push':
+          next[field] = [...(next[field] || []), value]
+          break
+        default:
+          throw new Error(`Unsupported update modifier ${modifier}`)
+      }
+    }
+  }
+  return next
+}
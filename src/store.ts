@@ -0,0 +1,112 @@
+export interface StoreSetOptions {
+  // Time to live in milliseconds, the key reads as missing once it passes
+  ttl?: number
+}
+
+export interface KeyValueStore {
+  storeGet<T = string>(key: string): Promise<T | null>
+  storeSet<T = string>(
+    key: string,
+    value: T,
+    options?: StoreSetOptions,
+  ): Promise<void>
+  storeDelete(key: string): Promise<boolean>
+  storeKeys(prefix?: string): Promise<string[]>
+  storeUpdate<T>(
+    key: string,
+    updater: (current: T | null) => T | Promise<T>,
+    options?: StoreSetOptions,
+  ): Promise<T>
+  storeCompareAndSet<T>(
+    key: string,
+    expected: T | null,
+    value: T,
+    options?: StoreSetOptions,
+  ): Promise<boolean>
+}
+
+/**
+ * Serializes async work per key. Express handlers and the round loop run in
+ * the same process, so a promise chain per key is enough to make
+ * read-modify-write sequences atomic.
+ */
+export class KeyLock {
+  private tails = new Map<string, Promise<unknown>>()
+
+  async run<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) || Promise.resolve()
+    const current = previous.then(fn, fn)
+    const tail = current.catch(() => undefined)
+    this.tails.set(key, tail)
+    try {
+      return await current
+    } finally {
+      if (this.tails.get(key) === tail) this.tails.delete(key)
+    }
+  }
+}
+
+/**
+ * View of a store where every key is prefixed with `${namespace}:`,
+ * e.g. `namespaceWrapper.storeNamespace(`round:${round}`)`.
+ */
+export class StoreNamespace implements KeyValueStore {
+  private store: KeyValueStore
+  private prefix: string
+
+  constructor(store: KeyValueStore, namespace: string) {
+    this.store = store
+    this.prefix = `${namespace}:`
+  }
+
+  storeGet<T = string>(key: string): Promise<T | null> {
+    return this.store.storeGet<T>(this.prefix + key)
+  }
+
+  storeSet<T = string>(
+    key: string,
+    value: T,
+    options?: StoreSetOptions,
+  ): Promise<void> {
+    return this.store.storeSet<T>(this.prefix + key, value, options)
+  }
+
+  storeDelete(key: string): Promise<boolean> {
+    return this.store.storeDelete(this.prefix + key)
+  }
+
+  async storeKeys(prefix = ''): Promise<string[]> {
+    const keys = await this.store.storeKeys(this.prefix + prefix)
+    return keys.map((key) => key.slice(this.prefix.length))
+  }
+
+  storeUpdate<T>(
+    key: string,
+    updater: (current: T | null) => T | Promise<T>,
+    options?: StoreSetOptions,
+  ): Promise<T> {
+    return this.store.storeUpdate<T>(this.prefix + key, updater, options)
+  }
+
+  storeCompareAndSet<T>(
+    key: string,
+    expected: T | null,
+    value: T,
+    options?: StoreSetOptions,
+  ): Promise<boolean> {
+    return this.store.storeCompareAndSet<T>(
+      this.prefix + key,
+      expected,
+      value,
+      options,
+    )
+  }
+
+  storeNamespace(namespace: string): StoreNamespace {
+    return new StoreNamespace(this, namespace)
+  }
+}
+
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
@@ -0,0 +1,103 @@
+import { createHash } from 'crypto'
+
+export const SUBMISSION_ENVELOPE_VERSION = 1
+
+// What the submitter signs; binds the submission hash to a task and round
+export interface SignedSubmissionPayload {
+  version: number
+  taskId: string
+  round: number
+  hash: string
+}
+
+export interface SubmissionEnvelope {
+  version: number
+  taskId: string
+  round: number
+  submission: string
+  signedMessage: string
+}
+
+// Files written before envelopes were versioned: the signed message is the hash alone
+export interface LegacySubmissionEnvelope {
+  submission: string
+  signedMessage: string
+}
+
+export interface SubmissionVerification {
+  valid: boolean
+  submission?: string
+  error?: string
+}
+
+export function submissionFileName(round: number): string {
+  return `submissionValues${round}.json`
+}
+
+export function hashSubmission(submission: string): string {
+  return createHash('sha256').update(submission).digest('hex')
+}
+
+export function isVersionedEnvelope(
+  envelope: SubmissionEnvelope | LegacySubmissionEnvelope,
+): envelope is SubmissionEnvelope {
+  return 'version' in envelope && envelope.version !== undefined
+}
+
+export function parseSubmissionEnvelope(
+  raw: string | object,
+): SubmissionEnvelope | LegacySubmissionEnvelope | null {
+  try {
+    const envelope = typeof raw === 'string' ? JSON.parse(raw) : raw
+    if (
+      typeof envelope?.signedMessage !== 'string' ||
+      typeof envelope?.submission !== 'string'
+    ) {
+      return null
+    }
+    return envelope
+  } catch (e) {
+    return null
+  }
+}
+
+/**
+ * Checks the payload recovered from the signature against the envelope and
+ * against the task and round the auditor expects. Legacy envelopes sign the
+ * hash alone, so they are only accepted with `options.acceptLegacy`.
+ * @returns an error message, or null if everything matches
+ */
+export function checkSubmissionPayload(
+  signedData: string,
+  envelope: SubmissionEnvelope | LegacySubmissionEnvelope,
+  expected: { taskId: string; round: number },
+  options: { acceptLegacy?: boolean } = {},
+): string | null {
+  const hash = hashSubmission(envelope.submission)
+  if (!isVersionedEnvelope(envelope)) {
+    if (!options.acceptLegacy) return 'Unversioned envelopes are not accepted'
+    // Legacy producers signed JSON.stringify(hash), drop the quotes
+    return signedData.replace(/"/g, '') === hash ? null : 'Invalid hash'
+  }
+  if (envelope.version !== SUBMISSION_ENVELOPE_VERSION) {
+    return `Unsupported envelope version ${envelope.version}`
+  }
+  let payload: SignedSubmissionPayload
+  try {
+    payload = JSON.parse(signedData)
+  } catch (e) {
+    return 'Signed payload is not JSON'
+  }
+  if (payload.version !== envelope.version) return 'Version mismatch'
+  if (payload.hash !== hash) return 'Invalid hash'
+  if (
+    payload.taskId !== envelope.taskId ||
+    payload.taskId !== expected.taskId
+  ) {
+    return `Submission was signed for task ${payload.taskId}`
+  }
+  if (payload.round !== envelope.round || payload.round !== expected.round) {
+    return `Submission was signed for round ${payload.round}`
+  }
+  return null
+}
@@ -0,0 +1,129 @@
+import { TaskState, TaskStateOptions, TaskType } from './types'
+
+export class TaskAccountDecodeError extends Error {
+  constructor(
+    message: string,
+    public type: TaskType,
+    public cause?: unknown,
+  ) {
+    super(message)
+    this.name = 'TaskAccountDecodeError'
+  }
+}
+
+// Fields every task account has, whatever the options. KPL accounts have
+// no task_id or current_round.
+const REQUIRED_FIELDS: Array<keyof TaskState> = [
+  'task_name',
+  'task_manager',
+  'is_active',
+  'round_time',
+  'starting_slot',
+  'audit_window',
+  'submission_window',
+]
+
+// Map valued fields, each kept only when its option asks for it
+const OPTIONAL_MAPS: Array<[keyof TaskState, keyof TaskStateOptions]> = [
+  ['stake_list', 'is_stake_list_required'],
+  ['available_balances', 'is_available_balances_required'],
+  ['submissions', 'is_submission_required'],
+  ['submissions_audit_trigger', 'is_submission_required'],
+  ['distribution_rewards_submission', 'is_distribution_required'],
+  ['distributions_audit_trigger', 'is_distribution_required'],
+  ['distributions_audit_record', 'is_distribution_required'],
+]
+
+// The KPL deserializer returns Maps at every level of nesting
+function toRecord(value: unknown): unknown {
+  if (value instanceof Map) {
+    const record: Record<string, unknown> = {}
+    for (const [key, item] of value) record[String(key)] = toRecord(item)
+    return record
+  }
+  if (Array.isArray(value)) return value.map(toRecord)
+  if (value !== null && typeof value === 'object') {
+    const prototype = Object.getPrototypeOf(value)
+    if (prototype !== Object.prototype && prototype !== null) return value
+    const record: Record<string, unknown> = {}
+    for (const [key, item] of Object.entries(value)) {
+      record[key] = toRecord(item)
+    }
+    return record
+  }
+  return value
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
+
+async function deserializeKPL(data: Uint8Array): Promise<unknown> {
+  const bincode_js = await import(
+    /* webpackIgnore: true */
+    '../webasm_bincode_deserializer/bincode_js'
+  )
+  return bincode_js.borsh_bpf_js_deserialize(data)
+}
+
+/**
+ * Decodes task account data as returned by the RPC node: JSON for KOII
+ * tasks, borsh for KPL tasks. Map valued fields are left empty unless
+ * `options` asks for them, as the task node does.
+ * @throws TaskAccountDecodeError when the data is not a task account
+ */
+export async function decodeTaskAccount(
+  data: Buffer | Uint8Array,
+  type: TaskType,
+  options: TaskStateOptions = {},
+): Promise<TaskState> {
+  if (type !== 'KOII' && type !== 'KPL') {
+    throw new TaskAccountDecodeError(`Unknown task type ${type}`, type)
+  }
+  if (!data || data.length === 0) {
+    throw new TaskAccountDecodeError(`Empty ${type} task account data`, type)
+  }
+
+  let decoded: unknown
+  try {
+    decoded =
+      type === 'KOII'
+        ? JSON.parse(Buffer.from(data).toString('utf-8'))
+        : toRecord(await deserializeKPL(data))
+  } catch (e) {
+    throw new TaskAccountDecodeError(
+      `Malformed ${type} task account data: ${e instanceof Error ? e.message : e}`,
+      type,
+      e,
+    )
+  }
+  if (!isRecord(decoded)) {
+    throw new TaskAccountDecodeError(
+      `${type} task account data is not an object`,
+      type,
+    )
+  }
+  const missing = REQUIRED_FIELDS.filter((field) => decoded[field] == null)
+  if (missing.length > 0) {
+    throw new TaskAccountDecodeError(
+      `${type} task account data is missing ${missing.join(', ')}`,
+      type,
+    )
+  }
+
+  const state: Record<string, unknown> = { ...decoded }
+  state.ip_address_list = isRecord(decoded.ip_address_list)
+    ? decoded.ip_address_list
+    : {}
+  for (const [field, option] of OPTIONAL_MAPS) {
+    const value = options[option] ? decoded[field] : undefined
+    if (value != null && !isRecord(value)) {
+      throw new TaskAccountDecodeError(
+        `${type} task account field ${field} is not a map`,
+        type,
+      )
+    }
+    state[field] = value ?? {}
+  }
+  return state as unknown as TaskState
+}
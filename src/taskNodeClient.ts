@@ -0,0 +1,359 @@
+import axios from 'axios'
+import {
+  TaskNodeAction,
+  TaskNodeArgs,
+  TaskNodeResponse,
+  TaskNodeResult,
+} from './types'
+import { Logger } from './logger'
+import {
+  MetricsRegistry,
+  WrapperMetrics,
+  createWrapperMetrics,
+} from './metrics'
+
+export class TaskNodeError extends Error {
+  action: TaskNodeAction
+  status?: number
+  details?: unknown
+  // The task node's answer when it answered with something not successful
+  response?: unknown
+
+  constructor(
+    action: TaskNodeAction,
+    message: string,
+    status?: number,
+    details?: unknown,
+    response?: unknown,
+  ) {
+    super(`${action}: ${message}`)
+    this.name = 'TaskNodeError'
+    this.action = action
+    this.status = status
+    this.details = details
+    this.response = response
+  }
+}
+
+export interface TaskNodeClientOptions {
+  baseUrl: string
+  taskId?: string
+  secret: string
+  // Registry the request metrics are recorded on, a new one by default
+  metrics?: MetricsRegistry
+  logger?: Logger
+}
+
+type ResponseKind = 'number' | 'string' | 'boolean' | 'object' | 'any'
+
+// What a successful response looks like for each action. The task node
+// reports some failures as bare numbers or `{ error }` objects, so anything
+// that does not match is treated as a failure.
+const RESPONSE_KINDS: Record<TaskNodeAction, ResponseKind | ResponseKind[]> = {
+  fs: 'any',
+  fsStaking: 'any',
+  fsWriteStream: 'object',
+  fsReadStream: 'object',
+  signData: 'string',
+  verifySignedData: 'object',
+  getCurrentSlot: 'number',
+  getNodes: 'any',
+  getRpcUrl: 'string',
+  getProgramAccounts: 'any',
+  sendAndConfirmTransactionWrapper: 'any',
+  sendTransaction: 'any',
+  claimReward: 'any',
+  stakeOnChain: 'any',
+  logger: 'boolean',
+  checkSubmissionAndUpdateRound: 'any',
+  getTaskState: 'object',
+  getTaskStateById: 'object',
+  getTaskLevelDBPath: 'string',
+  getBasePath: 'string',
+  getRound: 'number',
+  defaultTaskSetup: 'any',
+  getTaskSubmissionInfo: 'object',
+  getSubmitterAccount: 'object',
+  getTaskNodeVersion: 'string',
+  auditSubmission: 'any',
+  distributionListSubmissionOnChain: 'any',
+  uploadDistributionList: 'boolean',
+  getTaskDistributionInfo: 'object',
+  distributionListAuditSubmission: 'any',
+  // The list as JSON text, a serialized Buffer or the parsed object
+  getDistributionList: ['object', 'string'],
+  getAverageSlotTime: 'number',
+  payloadTrigger: 'any',
+}
+
+/**
+ * Typed client for the task node's /namespace-wrapper endpoint.
+ * Every call resolves to `{ ok: true, data }` or `{ ok: false, error }`.
+ */
+export class TaskNodeClient {
+  private baseUrl: string
+  private taskId?: string
+  private secret: string
+  private wrapperMetrics: WrapperMetrics
+  private log: Logger
+
+  constructor(options: TaskNodeClientOptions) {
+    this.baseUrl = options.baseUrl
+    this.taskId = options.taskId
+    this.secret = options.secret
+    this.wrapperMetrics = createWrapperMetrics(
+      options.metrics ?? new MetricsRegistry(),
+    )
+    this.log = options.logger ?? new Logger()
+  }
+
+  async call<A extends TaskNodeAction>(
+    action: A,
+    ...args: TaskNodeArgs<A>
+  ): Promise<TaskNodeResult<TaskNodeResponse<A>, TaskNodeError>> {
+    const stopTimer = this.wrapperMetrics.taskNodeRequestDuration.startTimer({
+      action,
+    })
+    const result = await this.send(action, ...args)
+    stopTimer()
+    this.wrapperMetrics.taskNodeRequests.inc({
+      action,
+      result: result.ok ? 'ok' : 'error',
+    })
+    return result
+  }
+
+  private async send<A extends TaskNodeAction>(
+    action: A,
+    ...args: TaskNodeArgs<A>
+  ): Promise<TaskNodeResult<TaskNodeResponse<A>, TaskNodeError>> {
+    try {
+      const response = await axios.post(this.baseUrl, {
+        args: [action, ...args],
+        taskId: this.taskId,
+        secret: this.secret,
+      })
+      if (response.status !== 200) {
+        this.log.error('Unexpected task node response', {
+          action,
+          status: response.status,
+          response: response.data,
+        })
+        return {
+          ok: false,
+          error: new TaskNodeError(
+            action,
+            `Unexpected status ${response.status}`,
+            response.status,
+            response.data,
+          ),
+        }
+      }
+      return checkResponse(action, response.data?.response)
+    } catch (err: any) {
+      this.log.error(`Error in task node call: "${action}"`, {
+        action,
+        error: err.message,
+        response: err?.response?.data,
+      })
+      return {
+        ok: false,
+        error: new TaskNodeError(
+          action,
+          err.message,
+          err?.response?.status,
+          err?.response?.data,
+        ),
+      }
+    }
+  }
+
+  fs(...args: TaskNodeArgs<'fs'>) {
+    return this.call('fs', ...args)
+  }
+
+  fsStaking(...args: TaskNodeArgs<'fsStaking'>) {
+    return this.call('fsStaking', ...args)
+  }
+
+  fsWriteStream(imagepath: string) {
+    return this.call('fsWriteStream', imagepath)
+  }
+
+  fsReadStream(imagepath: string) {
+    return this.call('fsReadStream', imagepath)
+  }
+
+  signData(...args: TaskNodeArgs<'signData'>) {
+    return this.call('signData', ...args)
+  }
+
+  verifySignedData(...args: TaskNodeArgs<'verifySignedData'>) {
+    return this.call('verifySignedData', ...args)
+  }
+
+  getCurrentSlot() {
+    return this.call('getCurrentSlot')
+  }
+
+  getNodes(url: string) {
+    return this.call('getNodes', url)
+  }
+
+  getRpcUrl() {
+    return this.call('getRpcUrl')
+  }
+
+  getProgramAccounts() {
+    return this.call('getProgramAccounts')
+  }
+
+  sendAndConfirmTransactionWrapper(
+    ...args: TaskNodeArgs<'sendAndConfirmTransactionWrapper'>
+  ) {
+    return this.call('sendAndConfirmTransactionWrapper', ...args)
+  }
+
+  sendTransaction(...args: TaskNodeArgs<'sendTransaction'>) {
+    return this.call('sendTransaction', ...args)
+  }
+
+  claimReward(...args: TaskNodeArgs<'claimReward'>) {
+    return this.call('claimReward', ...args)
+  }
+
+  stakeOnChain(...args: TaskNodeArgs<'stakeOnChain'>) {
+    return this.call('stakeOnChain', ...args)
+  }
+
+  logger(...args: TaskNodeArgs<'logger'>) {
+    return this.call('logger', ...args)
+  }
+
+  checkSubmissionAndUpdateRound(
+    ...args: TaskNodeArgs<'checkSubmissionAndUpdateRound'>
+  ) {
+    return this.call('checkSubmissionAndUpdateRound', ...args)
+  }
+
+  getTaskState(...args: TaskNodeArgs<'getTaskState'>) {
+    return this.call('getTaskState', ...args)
+  }
+
+  getTaskStateById(...args: TaskNodeArgs<'getTaskStateById'>) {
+    return this.call('getTaskStateById', ...args)
+  }
+
+  getTaskLevelDBPath() {
+    return this.call('getTaskLevelDBPath')
+  }
+
+  getBasePath() {
+    return this.call('getBasePath')
+  }
+
+  getRound() {
+    return this.call('getRound')
+  }
+
+  defaultTaskSetup() {
+    return this.call('defaultTaskSetup')
+  }
+
+  getTaskSubmissionInfo(round: number) {
+    return this.call('getTaskSubmissionInfo', round)
+  }
+
+  getSubmitterAccount(...args: TaskNodeArgs<'getSubmitterAccount'>) {
+    return this.call('getSubmitterAccount', ...args)
+  }
+
+  getTaskNodeVersion() {
+    return this.call('getTaskNodeVersion')
+  }
+
+  auditSubmission(...args: TaskNodeArgs<'auditSubmission'>) {
+    return this.call('auditSubmission', ...args)
+  }
+
+  distributionListSubmissionOnChain(round: number) {
+    return this.call('distributionListSubmissionOnChain', round)
+  }
+
+  uploadDistributionList(...args: TaskNodeArgs<'uploadDistributionList'>) {
+    return this.call('uploadDistributionList', ...args)
+  }
+
+  getTaskDistributionInfo(round: number) {
+    return this.call('getTaskDistributionInfo', round)
+  }
+
+  distributionListAuditSubmission(
+    ...args: TaskNodeArgs<'distributionListAuditSubmission'>
+  ) {
+    return this.call('distributionListAuditSubmission', ...args)
+  }
+
+  getDistributionList(...args: TaskNodeArgs<'getDistributionList'>) {
+    return this.call('getDistributionList', ...args)
+  }
+
+  getAverageSlotTime() {
+    return this.call('getAverageSlotTime')
+  }
+
+  payoutTrigger(round: number) {
+    return this.call('payloadTrigger', round)
+  }
+}
+
+function checkResponse<A extends TaskNodeAction>(
+  action: A,
+  response: unknown,
+): TaskNodeResult<TaskNodeResponse<A>, TaskNodeError> {
+  const kinds = ([] as ResponseKind[]).concat(RESPONSE_KINDS[action])
+  if (
+    response !== null &&
+    typeof response === 'object' &&
+    'error' in response
+  ) {
+    return {
+      ok: false,
+      error: new TaskNodeError(
+        action,
+        'Task node returned an error',
+        undefined,
+        (response as { error: unknown }).error,
+        response,
+      ),
+    }
+  }
+  if (!kinds.includes('number') && typeof response === 'number') {
+    return {
+      ok: false,
+      error: new TaskNodeError(
+        action,
+        `Task node returned error code ${response}`,
+        undefined,
+        response,
+        response,
+      ),
+    }
+  }
+  if (
+    !kinds.includes('any') &&
+    (response == null || !kinds.some((kind) => typeof response === kind))
+  ) {
+    return {
+      ok: false,
+      error: new TaskNodeError(
+        action,
+        `Expected a ${kinds.join(' or ')} response but got ${response === null ? 'null' : typeof response}`,
+        undefined,
+        response,
+        response,
+      ),
+    }
+  }
+  return { ok: true, data: response as TaskNodeResponse<A> }
+}
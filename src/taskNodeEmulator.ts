@@ -0,0 +1,468 @@
+import express, { Express, Request, Response } from 'express'
+import bodyParser from 'body-parser'
+import { Server } from 'http'
+import { Keypair, PublicKey } from '@_koii/web3.js'
+import bs58 from 'bs58'
+import nacl from 'tweetnacl'
+import {
+  TaskState,
+  TaskStateOptions,
+  TaskSubmissionState,
+  TaskDistributionInfo,
+} from './types'
+import { getRoundPhase } from './roundScheduler'
+import { getAuditOutcome } from './distributionCalculator'
+
+export interface TaskNodeEmulatorOptions {
+  taskId: string
+  secret: string
+  taskState?: Partial<TaskState>
+  submitterKeypair?: Keypair
+  mainKeypair?: Keypair
+  // Milliseconds per slot, used to advance the slot with wall-clock time
+  slotTime?: number
+  // Advance the slot with wall-clock time, true by default. Slots only move
+  // with advanceSlots() otherwise.
+  autoAdvance?: boolean
+  initialSlot?: number
+  taskNodeVersion?: string
+  basePath?: string
+}
+
+// A node served by the emulator, identified by the secret it sends
+export interface EmulatedNode {
+  secret: string
+  submitterKeypair: Keypair
+  mainKeypair: Keypair
+}
+
+// Thrown by action handlers, sent back to the wrapper as `{ error }`
+class EmulatorError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.status = status
+  }
+}
+
+/**
+ * In-process stand-in for the desktop task node. It serves the same
+ * `POST /namespace-wrapper` protocol as the real node and keeps one task's
+ * state in memory, so administered mode can run without a desktop node.
+ * Nodes added with `addNode()` share that state, each with its own secret
+ * and keys, like several task nodes watching the same chain.
+ */
+export class TaskNodeEmulator {
+  readonly app: Express
+  readonly taskId: string
+  readonly submitterKeypair: Keypair
+  readonly mainKeypair: Keypair
+  taskState: TaskState
+  distributionLists: Record<string, Record<string, Buffer>> = {}
+
+  private secret: string
+  private slotTime: number
+  private autoAdvance: boolean
+  private initialSlot: number
+  private slotOffset = 0
+  private startedAt = Date.now()
+  private taskNodeVersion: string
+  private basePath: string
+  private server: Server | null = null
+  private nodes = new Map<string, EmulatedNode>()
+  private handlers: Record<
+    string,
+    (node: EmulatedNode, ...args: any[]) => unknown
+  >
+
+  constructor(options: TaskNodeEmulatorOptions) {
+    this.taskId = options.taskId
+    this.secret = options.secret
+    this.submitterKeypair = options.submitterKeypair || new Keypair()
+    this.mainKeypair = options.mainKeypair || new Keypair()
+    this.slotTime = options.slotTime || 400
+    this.autoAdvance = options.autoAdvance ?? true
+    this.initialSlot = options.initialSlot || 0
+    this.taskNodeVersion = options.taskNodeVersion || '1.11.19'
+    this.basePath = options.basePath || './'
+    this.nodes.set(options.secret, {
+      secret: options.secret,
+      submitterKeypair: this.submitterKeypair,
+      mainKeypair: this.mainKeypair,
+    })
+    const submitterPubkey = this.submitterKeypair.publicKey.toBase58()
+    this.taskState = {
+      task_id: options.taskId,
+      task_name: 'EmulatedTask',
+      task_manager: '',
+      is_allowlisted: true,
+      is_active: true,
+      task_audit_program: '',
+      stake_pot_account: '',
+      total_bounty_amount: 10000000000,
+      bounty_amount_per_round: 1000000000,
+      current_round: 0,
+      available_balances: {},
+      stake_list: { [submitterPubkey]: 5000000000 },
+      task_metadata: '',
+      task_description: 'Task state served by the task node emulator',
+      submissions: {},
+      submissions_audit_trigger: {},
+      total_stake_amount: 5000000000,
+      minimum_stake_amount: 5000000000,
+      ip_address_list: { [submitterPubkey]: 'http://127.0.0.1:3000' },
+      round_time: 600,
+      starting_slot: this.initialSlot,
+      audit_window: 200,
+      submission_window: 200,
+      task_executable_network: 'IPFS',
+      distribution_rewards_submission: {},
+      distributions_audit_trigger: {},
+      distributions_audit_record: {},
+      task_vars: '',
+      koii_vars: '',
+      is_migrated: false,
+      migrated_to: '',
+      allowed_failed_distributions: 0,
+      ...options.taskState,
+    }
+
+    this.handlers = {
+      getTaskState: (node, taskStateOptions: TaskStateOptions) =>
+        this.filterTaskState(taskStateOptions || {}),
+      getTaskSubmissionInfo: (node, round: number) =>
+        this.getTaskSubmissionInfo(round),
+      getTaskDistributionInfo: (node, round: number) =>
+        this.getTaskDistributionInfo(round),
+      checkSubmissionAndUpdateRound: (
+        node,
+        submissionValue: string,
+        round: number,
+      ) => this.checkSubmissionAndUpdateRound(node, submissionValue, round),
+      auditSubmission: (
+        node,
+        candidatePubkey: string,
+        isValid: boolean,
+        round: number,
+      ) =>
+        this.recordAudit(
+          node,
+          this.taskState.submissions_audit_trigger,
+          candidatePubkey,
+          isValid,
+          round,
+        ),
+      distributionListAuditSubmission: (
+        node,
+        candidatePubkey: string,
+        isValid: boolean,
+        round: number,
+      ) =>
+        this.recordAudit(
+          node,
+          this.taskState.distributions_audit_trigger,
+          candidatePubkey,
+          isValid,
+          round,
+        ),
+      uploadDistributionList: (
+        node,
+        distributionList: Record<string, number>,
+        round: number,
+      ) => this.uploadDistributionList(node, distributionList, round),
+      distributionListSubmissionOnChain: (node, round: number) =>
+        this.distributionListSubmissionOnChain(node, round),
+      getDistributionList: (node, publicKey: string, round: number) =>
+        this.getDistributionList(publicKey, round),
+      payloadTrigger: (node, round: number) => this.payout(round),
+      getRound: () => this.getCurrentRound(),
+      getCurrentSlot: () => this.getCurrentSlot(),
+      getAverageSlotTime: () => this.slotTime,
+      signData: (node, body: Record<string, unknown> | string) => {
+        const msg = new TextEncoder().encode(
+          typeof body === 'string' ? body : JSON.stringify(body),
+        )
+        return bs58.encode(nacl.sign(msg, node.mainKeypair.secretKey))
+      },
+      verifySignedData: (node, signedMessage: string, pubKey: string) => {
+        try {
+          const payload = nacl.sign.open(
+            new Uint8Array(bs58.decode(signedMessage)),
+            new Uint8Array(bs58.decode(pubKey)),
+          )
+          if (!payload) return { error: 'Invalid signature' }
+          return { data: new TextDecoder().decode(payload) }
+        } catch (e) {
+          return { error: `Verification failed: ${e}` }
+        }
+      },
+      getSubmitterAccount: (node) => ({
+        _keypair: {
+          publicKey: { ...node.submitterKeypair.publicKey.toBytes() },
+          secretKey: { ...node.submitterKeypair.secretKey },
+        },
+      }),
+      getTaskNodeVersion: () => this.taskNodeVersion,
+      getTaskLevelDBPath: () => `${this.basePath}KOIIDB`,
+      getBasePath: () => this.basePath,
+      defaultTaskSetup: () => null,
+      logger: () => true,
+    }
+
+    this.app = express()
+    this.app.use(bodyParser.json({ limit: '50mb' }))
+    this.app.post('/namespace-wrapper', (req, res) => this.handle(req, res))
+  }
+
+  // Rejects when the port cannot be bound, e.g. because it is in use
+  listen(port: number): Promise<Server> {
+    return new Promise((resolve, reject) => {
+      this.startedAt = Date.now()
+      const server = this.app.listen(port)
+      server.once('listening', () => {
+        server.off('error', reject)
+        this.server = server
+        resolve(server)
+      })
+      server.once('error', reject)
+    })
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.server) return resolve()
+      this.server.close((err) => (err ? reject(err) : resolve()))
+      this.server = null
+    })
+  }
+
+  getCurrentSlot(): number {
+    const elapsed = this.autoAdvance
+      ? Math.floor((Date.now() - this.startedAt) / this.slotTime)
+      : 0
+    return this.initialSlot + this.slotOffset + elapsed
+  }
+
+  getCurrentRound(): number {
+    return getRoundPhase(this.getCurrentSlot(), this.taskState).round
+  }
+
+  /**
+   * Serves another node of the task, which authenticates with `secret`. Its
+   * stake and IP address are left to the task state.
+   */
+  addNode(
+    secret: string,
+    submitterKeypair: Keypair = new Keypair(),
+    mainKeypair: Keypair = new Keypair(),
+  ): EmulatedNode {
+    if (this.nodes.has(secret)) {
+      throw new Error('A node with this secret is already served')
+    }
+    const node = { secret, submitterKeypair, mainKeypair }
+    this.nodes.set(secret, node)
+    return node
+  }
+
+  // Moves the chain forward without waiting, e.g. to reach the audit window
+  advanceSlots(slots: number): void {
+    this.slotOffset += slots
+    this.taskState.current_round = this.getCurrentRound()
+  }
+
+  private handle(req: Request, res: Response) {
+    const { args, taskId, secret } = req.body || {}
+    const node = taskId === this.taskId ? this.nodes.get(secret) : undefined
+    if (!node) {
+      return res.status(401).json({ error: 'Invalid task id or secret' })
+    }
+    if (!Array.isArray(args) || typeof args[0] !== 'string') {
+      return res.status(400).json({ error: 'Missing action' })
+    }
+    const [action, ...rest] = args
+    const handler = this.handlers[action]
+    if (!handler) {
+      return res.status(404).json({ error: `Unsupported action: ${action}` })
+    }
+    try {
+      this.taskState.current_round = this.getCurrentRound()
+      const response = handler(node, ...rest)
+      res.status(200).json({ response: response ?? null })
+    } catch (e: any) {
+      res.status(e instanceof EmulatorError ? e.status : 500).json({
+        error: e.message,
+      })
+    }
+  }
+
+  private filterTaskState(options: TaskStateOptions): TaskState {
+    const state: TaskState = JSON.parse(JSON.stringify(this.taskState))
+    if (!options.is_submission_required) {
+      state.submissions = {}
+      state.submissions_audit_trigger = {}
+    }
+    if (!options.is_distribution_required) {
+      state.distribution_rewards_submission = {}
+      state.distributions_audit_trigger = {}
+      state.distributions_audit_record = {}
+    }
+    if (!options.is_available_balances_required) state.available_balances = {}
+    if (!options.is_stake_list_required) state.stake_list = {}
+    return state
+  }
+
+  private getTaskSubmissionInfo(round: number): TaskSubmissionState {
+    return {
+      submissions: { [round]: this.taskState.submissions[round] || {} },
+      submissions_audit_trigger: {
+        [round]: this.taskState.submissions_audit_trigger[round] || {},
+      },
+    }
+  }
+
+  private getTaskDistributionInfo(round: number): TaskDistributionInfo {
+    const state = this.taskState
+    return {
+      distribution_rewards_submission: {
+        [round]: state.distribution_rewards_submission[round] || {},
+      },
+      distributions_audit_trigger: {
+        [round]: state.distributions_audit_trigger[round] || {},
+      },
+      distributions_audit_record: state.distributions_audit_record,
+    }
+  }
+
+  private checkSubmissionAndUpdateRound(
+    node: EmulatedNode,
+    submissionValue: string,
+    round: number,
+  ) {
+    if (round !== this.getCurrentRound()) {
+      throw new EmulatorError(
+        `Round ${round} is not the current round ${this.getCurrentRound()}`,
+      )
+    }
+    if (
+      getRoundPhase(this.getCurrentSlot(), this.taskState).phase !==
+      'submission'
+    ) {
+      throw new EmulatorError(`Submission window for round ${round} is closed`)
+    }
+    const submitterPubkey = node.submitterKeypair.publicKey.toBase58()
+    if (!this.taskState.submissions[round]) {
+      this.taskState.submissions[round] = {}
+    }
+    this.taskState.submissions[round][submitterPubkey] = {
+      submission_value: submissionValue,
+      slot: this.getCurrentSlot(),
+      round,
+    }
+    return null
+  }
+
+  private recordAudit(
+    node: EmulatedNode,
+    triggers: TaskState['submissions_audit_trigger'],
+    candidatePubkey: string,
+    isValid: boolean,
+    round: number,
+  ) {
+    // Kept as a PublicKey like the task state on chain, responses carry it
+    // as base58 like the task node's
+    const voter = node.submitterKeypair.publicKey
+    if (!triggers[round]) triggers[round] = {}
+    const trigger = triggers[round][candidatePubkey]
+    if (trigger) {
+      // A node voting again replaces its earlier vote
+      trigger.votes = trigger.votes.filter(
+        (vote) => !new PublicKey(vote.voter).equals(voter),
+      )
+      trigger.votes.push({
+        is_valid: isValid,
+        voter,
+        slot: this.getCurrentSlot(),
+      })
+    } else if (!isValid) {
+      triggers[round][candidatePubkey] = {
+        trigger_by: voter,
+        slot: this.getCurrentSlot(),
+        votes: [],
+      }
+    }
+    return null
+  }
+
+  private uploadDistributionList(
+    node: EmulatedNode,
+    distributionList: Record<string, number>,
+    round: number,
+  ): boolean {
+    const submitterPubkey = node.submitterKeypair.publicKey.toBase58()
+    if (!this.distributionLists[round]) this.distributionLists[round] = {}
+    this.distributionLists[round][submitterPubkey] = Buffer.from(
+      JSON.stringify(distributionList),
+    )
+    return true
+  }
+
+  private distributionListSubmissionOnChain(node: EmulatedNode, round: number) {
+    const submitterPubkey = node.submitterKeypair.publicKey.toBase58()
+    if (!this.distributionLists[round]?.[submitterPubkey]) {
+      throw new EmulatorError(
+        `No distribution list uploaded for round ${round}`,
+      )
+    }
+    const submissions = this.taskState.distribution_rewards_submission
+    if (!submissions[round]) submissions[round] = {}
+    submissions[round][submitterPubkey] = {
+      submission_value: submitterPubkey,
+      slot: this.getCurrentSlot(),
+      round,
+    }
+    this.taskState.distributions_audit_record[round] = 'Uninitialized'
+    return submitterPubkey
+  }
+
+  /**
+   * Pays out the distribution list submitted for `round` unless it lost its
+   * audit, and records the outcome in the distribution audit record. A round
+   * without a distribution list fails.
+   */
+  private payout(round: number) {
+    const state = this.taskState
+    const record = state.distributions_audit_record[round]
+    if (record === 'PayoutSuccessful' || record === 'PayoutFailed') {
+      throw new EmulatorError(`Round ${round} was already paid out`)
+    }
+    const [submitter] = Object.keys(
+      state.distribution_rewards_submission[round] || {},
+    )
+    const trigger = state.distributions_audit_trigger[round]?.[submitter]
+    const list = this.distributionLists[round]?.[submitter]
+    if (!list || getAuditOutcome(trigger) === 'failed') {
+      state.distributions_audit_record[round] = 'PayoutFailed'
+      return null
+    }
+    const distributionList: Record<string, number> = JSON.parse(list.toString())
+    for (const [publicKey, amount] of Object.entries(distributionList)) {
+      state.available_balances[publicKey] =
+        (state.available_balances[publicKey] || 0) + amount
+      state.total_bounty_amount -= amount
+    }
+    state.distributions_audit_record[round] = 'PayoutSuccessful'
+    return null
+  }
+
+  private getDistributionList(publicKey: string, round: number) {
+    const list = this.distributionLists[round]?.[publicKey]
+    if (!list) {
+      throw new EmulatorError(
+        `No distribution list from ${publicKey} in round ${round}`,
+        404,
+      )
+    }
+    return list
+  }
+}
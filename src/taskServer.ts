@@ -0,0 +1,139 @@
+import express, { Express } from 'express'
+import bodyParser from 'body-parser'
+import { Server } from 'http'
+import { TaskNode } from './types'
+import { Logger } from './logger'
+import { MetricsRegistry } from './metrics'
+import { PUBLIC_KEY_HEADER, SIGNATURE_HEADER } from './requestAuth'
+
+export interface CorsOptions {
+  // Allowed origins, '*' by default. A function decides per request origin.
+  origin?: '*' | string[] | ((origin: string) => boolean)
+  methods?: string[]
+  headers?: string[]
+  credentials?: boolean
+}
+
+export interface TaskServerOptions {
+  // Wrapper whose health the /health and /ready routes report
+  wrapper: TaskNode
+  // Port used by `listen()` when none is given, 3000 by default
+  port?: number
+  // Registry rendered on /metrics, the wrapper's by default
+  metrics?: MetricsRegistry
+  // The wrapper's logger by default
+  logger?: Logger
+  // Shown in the startup message
+  name?: string
+  // CORS headers added to every response, or false to add none
+  cors?: CorsOptions | false
+}
+
+const DEFAULT_CORS: Required<CorsOptions> = {
+  origin: '*',
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'],
+  headers: ['Content-Type', PUBLIC_KEY_HEADER, SIGNATURE_HEADER],
+  credentials: false,
+}
+
+function allowedOrigin(
+  origin: CorsOptions['origin'],
+  requestOrigin: string | undefined,
+): string | null {
+  if (origin === '*') return '*'
+  if (!requestOrigin) return null
+  const allowed = Array.isArray(origin)
+    ? origin.includes(requestOrigin)
+    : origin!(requestOrigin)
+  return allowed ? requestOrigin : null
+}
+
+/**
+ * Express app serving a task's routes next to the built-in /, /health,
+ * /ready and /metrics routes. Nothing listens until `listen()` is called.
+ */
+export class TaskServer {
+  readonly app: Express
+  server: Server | null = null
+
+  private port: number
+  private log: Logger
+  private name: string
+
+  constructor(options: TaskServerOptions) {
+    this.port = options.port ?? 3000
+    const wrapper = options.wrapper
+    this.log = options.logger ?? wrapper.log ?? new Logger()
+    this.name = options.name ?? 'Task server'
+    const metrics = options.metrics ?? wrapper.metrics ?? new MetricsRegistry()
+    const app = express()
+
+    this.log.debug('Setting up express')
+
+    app.use(bodyParser.urlencoded({ limit: '50mb', extended: false }))
+    app.use(bodyParser.json({ limit: '50mb' }))
+
+    if (options.cors !== false) {
+      const cors = { ...DEFAULT_CORS, ...options.cors }
+      app.use((req, res, next) => {
+        const origin = allowedOrigin(cors.origin, req.headers.origin)
+        if (cors.origin !== '*') res.setHeader('Vary', 'Origin')
+        if (origin) {
+          res.setHeader('Access-Control-Allow-Origin', origin)
+          res.setHeader('Access-Control-Allow-Methods', cors.methods.join(', '))
+          res.setHeader('Access-Control-Allow-Headers', cors.headers.join(', '))
+          res.setHeader(
+            'Access-Control-Allow-Credentials',
+            String(cors.credentials),
+          )
+        }
+        if (req.method === 'OPTIONS') {
+          // Only preflight requests from other origins can be refused
+          return res.sendStatus(origin || !req.headers.origin ? 204 : 403)
+        }
+        next()
+      })
+    }
+
+    app.get('/', (req, res) => {
+      res.json({ status: 200, message: 'Running' })
+    })
+
+    app.get('/health', async (req, res) => {
+      const report = await wrapper.checkHealth()
+      res.status(report.healthy ? 200 : 503).json(report)
+    })
+
+    app.get('/ready', async (req, res) => {
+      const report = await wrapper.checkHealth()
+      res.status(report.ready ? 200 : 503).json(report)
+    })
+
+    app.get('/metrics', async (req, res) => {
+      res.type('text/plain; version=0.0.4')
+      res.send(await metrics.render())
+    })
+
+    this.app = app
+  }
+
+  listen(port: number = this.port): Server {
+    if (this.server) throw new Error(`${this.name} is already listening`)
+    this.server = this.app.listen(port, () => {
+      this.log.info(`${this.name} listening on port ${port}`)
+    })
+    return this.server
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.server) return resolve()
+      this.server.close((err) => (err ? reject(err) : resolve()))
+      this.server = null
+    })
+  }
+}
+
+export function createTaskServer(options: TaskServerOptions): TaskServer {
+  return new TaskServer(options)
+}
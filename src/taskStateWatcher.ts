@@ -0,0 +1,396 @@
+import { EventEmitter } from 'events'
+import {
+  AuditTriggerState,
+  Submission,
+  TaskState,
+  TaskStateOptions,
+} from './types'
+import { VoteKind } from './voteReport'
+import { Logger } from './logger'
+
+type PayoutStatus = TaskState['distributions_audit_record'][string]
+
+export interface SubmissionEvent {
+  type: 'submission'
+  round: number
+  submitter: string
+  submission: Submission
+}
+
+export interface DistributionSubmittedEvent {
+  type: 'distributionSubmitted'
+  round: number
+  submitter: string
+  submission: Submission
+}
+
+export interface AuditTriggerEvent {
+  type: 'auditTrigger'
+  kind: VoteKind
+  round: number
+  candidate: string
+  triggeredBy: string
+  slot: number
+}
+
+export interface VoteEvent {
+  type: 'vote'
+  kind: VoteKind
+  round: number
+  candidate: string
+  voter: string
+  isValid: boolean
+  slot: number
+}
+
+export interface StakeEvent {
+  type: 'stakeAdded' | 'stakeRemoved'
+  publicKey: string
+  previous: number
+  current: number
+}
+
+export interface PayoutEvent {
+  type: 'payout'
+  round: number
+  status: 'PayoutSuccessful' | 'PayoutFailed'
+  previous: PayoutStatus | null
+}
+
+export interface ActiveChangedEvent {
+  type: 'activeChanged'
+  isActive: boolean
+}
+
+export interface MigratedChangedEvent {
+  type: 'migratedChanged'
+  isMigrated: boolean
+  migratedTo: string
+}
+
+export type TaskStateEvent =
+  | SubmissionEvent
+  | DistributionSubmittedEvent
+  | AuditTriggerEvent
+  | VoteEvent
+  | StakeEvent
+  | PayoutEvent
+  | ActiveChangedEvent
+  | MigratedChangedEvent
+
+export type TaskStateEventType = TaskStateEvent['type']
+
+// The events whose type can be K, StakeEvent has two types
+type EventOfType<K, E = TaskStateEvent> = E extends { type: infer T }
+  ? K extends T
+    ? E
+    : never
+  : never
+
+// Each change event is emitted under its type
+export type TaskStateWatcherEvents = {
+  [K in TaskStateEventType]: [EventOfType<K>]
+} & {
+  // Every snapshot read, after its events
+  snapshot: [TaskState]
+  error: [unknown]
+}
+
+export interface TaskStateWatcherSource {
+  getTaskState(options: TaskStateOptions): Promise<TaskState | null>
+  log?: Logger
+}
+
+export interface TaskStateWatcherOptions {
+  // Milliseconds between two reads of the task state, 10000 by default
+  interval?: number
+  // Parts of the task state to read and compare, all of them by default
+  stateOptions?: TaskStateOptions
+  // Errors without an `error` listener go here, the source's logger by default
+  logger?: Logger
+}
+
+const ALL_STATE: TaskStateOptions = {
+  is_submission_required: true,
+  is_distribution_required: true,
+  is_available_balances_required: false,
+  is_stake_list_required: true,
+}
+
+// Keys arrive as strings from the task node and as PublicKeys from K2
+function keyOf(publicKey: unknown): string {
+  if (typeof publicKey === 'string') return publicKey
+  const base58 = (publicKey as { toBase58?: () => string })?.toBase58
+  return base58 ? base58.call(publicKey) : String(publicKey)
+}
+
+function newEntries<T>(
+  previous: Record<string, Record<string, T>> = {},
+  current: Record<string, Record<string, T>> = {},
+): Array<[round: number, key: string, value: T]> {
+  const entries: Array<[number, string, T]> = []
+  for (const [round, values] of Object.entries(current)) {
+    for (const [key, value] of Object.entries(values || {})) {
+      if (!previous[round]?.[key]) entries.push([Number(round), key, value])
+    }
+  }
+  return entries
+}
+
+function auditEvents(
+  kind: VoteKind,
+  previous: Record<string, Record<string, AuditTriggerState>> = {},
+  current: Record<string, Record<string, AuditTriggerState>> = {},
+): TaskStateEvent[] {
+  const events: TaskStateEvent[] = []
+  for (const [round, triggers] of Object.entries(current)) {
+    for (const [candidate, trigger] of Object.entries(triggers || {})) {
+      const before = previous[round]?.[candidate]
+      if (!before) {
+        events.push({
+          type: 'auditTrigger',
+          kind,
+          round: Number(round),
+          candidate,
+          triggeredBy: keyOf(trigger.trigger_by),
+          slot: trigger.slot,
+        })
+      }
+      const seen = new Set(
+        (before?.votes || []).map((v) => `${keyOf(v.voter)}:${v.slot}`),
+      )
+      for (const vote of trigger.votes || []) {
+        if (seen.has(`${keyOf(vote.voter)}:${vote.slot}`)) continue
+        events.push({
+          type: 'vote',
+          kind,
+          round: Number(round),
+          candidate,
+          voter: keyOf(vote.voter),
+          isValid: vote.is_valid,
+          slot: vote.slot,
+        })
+      }
+    }
+  }
+  return events
+}
+
+/**
+ * Lists what changed between two snapshots of a task state. Only the parts
+ * selected by `options` are compared, the others may be left empty by
+ * `getTaskState` and would look like removals.
+ */
+export function diffTaskState(
+  previous: TaskState,
+  current: TaskState,
+  options: TaskStateOptions = ALL_STATE,
+): TaskStateEvent[] {
+  const events: TaskStateEvent[] = []
+
+  if (options.is_submission_required) {
+    for (const [round, submitter, submission] of newEntries(
+      previous.submissions,
+      current.submissions,
+    )) {
+      events.push({ type: 'submission', round, submitter, submission })
+    }
+    events.push(
+      ...auditEvents(
+        'submission',
+        previous.submissions_audit_trigger,
+        current.submissions_audit_trigger,
+      ),
+    )
+  }
+
+  if (options.is_distribution_required) {
+    for (const [round, submitter, submission] of newEntries(
+      previous.distribution_rewards_submission,
+      current.distribution_rewards_submission,
+    )) {
+      events.push({
+        type: 'distributionSubmitted',
+        round,
+        submitter,
+        submission,
+      })
+    }
+    events.push(
+      ...auditEvents(
+        'distribution',
+        previous.distributions_audit_trigger,
+        current.distributions_audit_trigger,
+      ),
+    )
+    const records = current.distributions_audit_record || {}
+    for (const [round, status] of Object.entries(records)) {
+      const before = previous.distributions_audit_record?.[round] ?? null
+      if (status === before) continue
+      if (status !== 'PayoutSuccessful' && status !== 'PayoutFailed') continue
+      events.push({
+        type: 'payout',
+        round: Number(round),
+        status,
+        previous: before,
+      })
+    }
+  }
+
+  if (options.is_stake_list_required) {
+    const before = previous.stake_list || {}
+    const after = current.stake_list || {}
+    for (const publicKey of new Set([
+      ...Object.keys(before),
+      ...Object.keys(after),
+    ])) {
+      const previousStake = before[publicKey] || 0
+      const currentStake = after[publicKey] || 0
+      if (currentStake === previousStake) continue
+      events.push({
+        type: currentStake > previousStake ? 'stakeAdded' : 'stakeRemoved',
+        publicKey,
+        previous: previousStake,
+        current: currentStake,
+      })
+    }
+  }
+
+  if (previous.is_active !== current.is_active) {
+    events.push({ type: 'activeChanged', isActive: current.is_active })
+  }
+  if (previous.is_migrated !== current.is_migrated) {
+    events.push({
+      type: 'migratedChanged',
+      isMigrated: current.is_migrated,
+      migratedTo: current.migrated_to,
+    })
+  }
+  return events
+}
+
+/**
+ * Reads the task state every `interval` ms and emits an event for each
+ * change since the previous read. The first read only sets the baseline.
+ * Snapshots obtained elsewhere, e.g. from a subscription, can be passed to
+ * `update()` instead of polling.
+ */
+export class TaskStateWatcher extends EventEmitter<TaskStateWatcherEvents> {
+  private source: TaskStateWatcherSource | null
+  private interval: number
+  private stateOptions: TaskStateOptions
+  private log: Logger
+  private previous: TaskState | null = null
+  private timer: NodeJS.Timeout | null = null
+  private running = false
+
+  constructor(
+    source: TaskStateWatcherSource | null,
+    options: TaskStateWatcherOptions = {},
+  ) {
+    super()
+    this.source = source
+    this.interval = options.interval ?? 10000
+    this.stateOptions = options.stateOptions ?? ALL_STATE
+    this.log = options.logger ?? source?.log ?? new Logger()
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return
+    if (!this.source) throw new Error('TaskStateWatcher has no source to poll')
+    this.running = true
+    await this.poll()
+  }
+
+  stop(): void {
+    this.running = false
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = null
+  }
+
+  // Latest snapshot, null before the first read
+  getSnapshot(): TaskState | null {
+    return this.previous
+  }
+
+  /**
+   * Compares `taskState` with the previous snapshot, emits the changes and
+   * keeps it as the new baseline
+   * @returns the emitted events
+   */
+  update(taskState: TaskState): TaskStateEvent[] {
+    const previous = this.previous
+    this.previous = taskState
+    const events = previous
+      ? diffTaskState(previous, taskState, this.stateOptions)
+      : []
+    for (const event of events) this.emitChange(event)
+    try {
+      this.emit('snapshot', taskState)
+    } catch (error) {
+      this.reportError(error)
+    }
+    return events
+  }
+
+  // A throwing listener must not keep the other changes from being emitted
+  private emitChange(event: TaskStateEvent): void {
+    try {
+      // Each case narrows the event to the payload type of its event name
+      switch (event.type) {
+        case 'submission':
+          this.emit(event.type, event)
+          break
+        case 'distributionSubmitted':
+          this.emit(event.type, event)
+          break
+        case 'auditTrigger':
+          this.emit(event.type, event)
+          break
+        case 'vote':
+          this.emit(event.type, event)
+          break
+        case 'stakeAdded':
+        case 'stakeRemoved':
+          this.emit(event.type, event)
+          break
+        case 'payout':
+          this.emit(event.type, event)
+          break
+        case 'activeChanged':
+          this.emit(event.type, event)
+          break
+        case 'migratedChanged':
+          this.emit(event.type, event)
+          break
+      }
+    } catch (error) {
+      this.reportError(error)
+    }
+  }
+
+  // An `error` event without listeners would throw and end the polling loop
+  private reportError(error: unknown): void {
+    try {
+      if (this.listenerCount('error') > 0) {
+        this.emit('error', error)
+        return
+      }
+    } catch (listenerError) {
+      error = listenerError
+    }
+    this.log.error('Task state watcher error', { error })
+  }
+
+  private async poll(): Promise<void> {
+    if (!this.running) return
+    try {
+      const taskState = await this.source!.getTaskState(this.stateOptions)
+      if (taskState != null && this.running) this.update(taskState)
+    } catch (error) {
+      this.reportError(error)
+    }
+    if (!this.running) return
+    this.timer = setTimeout(() => this.poll(), this.interval)
+  }
+}
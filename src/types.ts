@@ -1,11 +1,18 @@
 import Datastore from 'nedb-promises'
-import { Transaction, Keypair, PublicKey } from '@_koii/web3.js'
-import {
-  promises as fsPromises,
-  createWriteStream,
-  WriteStream,
-  readFileSync,
-} from 'fs'
+import { Transaction, Keypair, PublicKey, Connection } from '@_koii/web3.js'
+import { promises as fsPromises, WriteStream } from 'fs'
+import { StoreSetOptions } from './store'
+import { SamplingStrategy } from './auditSampling'
+import { SelectionStrategy } from './nodeSelection'
+import { ValidationOptions } from './validationQueue'
+import { VoteKind, VoteReport } from './voteReport'
+import { PeerReputation } from './reputation'
+import { HealthReport } from './health'
+import { WrapperConfig } from './config'
+import { TaskNodeClient } from './taskNodeClient'
+import { ContentRetriever } from './contentRetrieval'
+import { Logger } from './logger'
+import { MetricsRegistry } from './metrics'
 
 // Define types for the handler response and arguments
 
@@ -98,15 +105,89 @@ export interface TaskState {
   allowed_failed_distributions: number
 }
 
+export type StorageType = 'nedb' | 'sqlite' | 'memory'
+
+export interface NodeSelectionOptions {
+  // Ranks the candidates, SelectionStrategies.stakeWeighted() by default
+  strategy?: SelectionStrategy
+}
+
+export interface VerifySelectedNodeOptions extends NodeSelectionOptions {
+  // Whether the round was selected after a failed payout, read from the
+  // distribution audit record of the previous round when absent
+  isPreviousFailed?: boolean
+}
+
+export interface ValidateAndVoteOptions extends ValidationOptions {
+  // Picks the candidates to audit, defaults to 5 at random
+  sampling?: SamplingStrategy
+  uploadToIPFS?: boolean
+}
+
+export interface NamespaceWrapperOptions {
+  // Validated like loaded configuration, unset fields take their defaults
+  config?: Partial<WrapperConfig>
+  // Task DB location outside a task node, ./localKOIIDB.db by default
+  dbPath?: string
+  taskNodeClient?: TaskNodeClient
+  // Skips looking up the RPC URL in `initialize()`
+  connection?: Connection
+  contentRetriever?: ContentRetriever
+  // Parent of the instance logger, a console logger at `logLevel` by default
+  logger?: Logger
+  // Registry the wrapper's metrics are recorded on, a new one by default
+  metrics?: MetricsRegistry
+}
+
+// The part of the NeDB datastore API every storage backend provides
+export interface TaskStorage {
+  insert(doc: Record<string, any>): Promise<any>
+  find(query: Record<string, any>): PromiseLike<any[]>
+  findOne(query: Record<string, any>): PromiseLike<any | null>
+  count(query: Record<string, any>): PromiseLike<number>
+  update(
+    query: Record<string, any>,
+    update: Record<string, any>,
+    options?: { upsert?: boolean; multi?: boolean },
+  ): Promise<any>
+  remove(
+    query: Record<string, any>,
+    options?: { multi?: boolean },
+  ): Promise<number>
+}
+
 // Interface for the class
 export interface TaskNode {
+  readonly config: WrapperConfig
+  log?: Logger
+  metrics?: MetricsRegistry
   testingTaskState?: TaskState | null
   testingStakingSystemAccount?: { publicKey: { toBase58(): string } } | null
   testingMainSystemAccount?: Keypair | null
   testingDistributionList?: any | null
   initializeDB(): Promise<void>
+  // The NeDB datastore, only with the nedb and memory backends
   getDb(): Promise<Datastore<Document>>
-  storeSet(key: string, value: string): Promise<void>
+  // The task database on any backend
+  getStorage(): Promise<TaskStorage>
+  storeSet<T = string>(
+    key: string,
+    value: T,
+    options?: StoreSetOptions,
+  ): Promise<void>
+  storeDelete(key: string): Promise<boolean>
+  storeKeys(prefix?: string): Promise<string[]>
+  storeUpdate<T>(
+    key: string,
+    updater: (current: T | null) => T | Promise<T>,
+    options?: StoreSetOptions,
+  ): Promise<T>
+  storeCompareAndSet<T>(
+    key: string,
+    expected: T | null,
+    value: T,
+    options?: StoreSetOptions,
+  ): Promise<boolean>
   fs(
     method: keyof typeof fsPromises,
     path: string,
@@ -156,7 +237,7 @@ export interface TaskNode {
     submissionValue: string,
     round: number,
   ): Promise<void>
-  storeGet(key: string): Promise<string | null>
+  storeGet<T = string>(key: string): Promise<T | null>
   getTaskState(options: any): Promise<any>
   getTaskLevelDBPath(): Promise<string>
   getBasePath(): Promise<string>
@@ -165,13 +246,17 @@ export interface TaskNode {
   validateAndVoteOnNodes(
     validate: (submissionValue: string, round: number) => Promise<boolean>,
     round: number,
-    useRandomSampling?: boolean,
+    useRandomSampling?: boolean | ValidateAndVoteOptions,
     uploadToIPFS?: boolean,
-  ): Promise<void | string>
+  ): Promise<void | string | VoteReport[]>
+  getVoteReports(round: number, kind?: VoteKind): Promise<VoteReport[]>
+  getPeerReputation(publicKey: string): Promise<PeerReputation>
+  updatePeerReputation(currentRound?: number): Promise<number[]>
   getTaskSubmissionInfo(round: number): Promise<TaskSubmissionState | null>
   getSubmitterAccount(): Promise<Keypair | null>
   getMainAccountPubkey(): Promise<string | null>
   getTaskNodeVersion(): Promise<string>
+  checkHealth(): Promise<HealthReport>
   auditSubmission(
     candidatePubkey: PublicKey,
     isValid: boolean,
@@ -191,18 +276,151 @@ export interface TaskNode {
       round: number,
     ) => Promise<boolean>,
     round: number,
-  ): Promise<void | string>
+    options?: ValidationOptions,
+  ): Promise<void | string | VoteReport[]>
   getDistributionList(publicKey: string, round: number): Promise<any | null>
   nodeSelectionDistributionList(
     round: number,
     isPreviousFailed: boolean,
+    options?: NodeSelectionOptions,
   ): Promise<string | void>
+  verifySelectedNode(
+    round: number,
+    publicKey: string,
+    options?: VerifySelectedNodeOptions,
+  ): Promise<boolean>
   payoutTrigger(round: number): Promise<void>
   selectAndGenerateDistributionList(
     submitDistributionList: (round: number) => Promise<void>,
     round: number,
     isPreviousRoundFailed: boolean,
+    options?: NodeSelectionOptions,
   ): Promise<void>
 }
 
 export type TaskType = 'KPL' | 'KOII'
+
+// Actions understood by the task node's /namespace-wrapper endpoint, with the
+// positional arguments each one takes and the shape of a successful response
+
+export interface SubmitterAccountResponse {
+  _keypair: {
+    publicKey: Record<string, number>
+    secretKey: Record<string, number>
+  }
+}
+
+export interface TaskNodeActions {
+  fs: {
+    args: [method: keyof typeof fsPromises, path: string, ...rest: any[]]
+    response: any
+  }
+  fsStaking: {
+    args: [method: keyof typeof fsPromises, path: string, ...rest: any[]]
+    response: any
+  }
+  fsWriteStream: { args: [imagepath: string]; response: WriteStream }
+  fsReadStream: { args: [imagepath: string]; response: Buffer }
+  signData: {
+    // Strings are signed as they are, objects as their JSON
+    args: [body: Record<string, unknown> | string]
+    response: string
+  }
+  verifySignedData: {
+    args: [signedMessage: string, pubKey: string]
+    response: { data?: string; error?: string }
+  }
+  getCurrentSlot: { args: []; response: number }
+  getNodes: { args: [url: string]; response: any }
+  getRpcUrl: { args: []; response: string }
+  getProgramAccounts: { args: []; response: any }
+  sendAndConfirmTransactionWrapper: {
+    args: [serializedTransaction: Buffer, signers: Keypair[]]
+    response: string
+  }
+  sendTransaction: {
+    args: [
+      serviceNodeAccount: PublicKey,
+      beneficiaryAccount: PublicKey,
+      amount: number,
+    ]
+    response: string
+  }
+  claimReward: {
+    args: [
+      stakePotAccount: PublicKey,
+      beneficiaryAccount: PublicKey,
+      claimerKeypair: Keypair,
+    ]
+    response: any
+  }
+  stakeOnChain: {
+    args: [
+      taskStateInfoPublicKey: PublicKey,
+      stakingAccKeypair: Keypair,
+      stakePotAccount: PublicKey,
+      stakeAmount: number,
+    ]
+    response: string
+  }
+  logger: {
+    args: [level: LogLevel, message: string, action: string]
+    response: boolean
+  }
+  checkSubmissionAndUpdateRound: {
+    args: [submissionValue: string, round: number]
+    response: any
+  }
+  getTaskState: { args: [options: TaskStateOptions]; response: TaskState }
+  getTaskStateById: {
+    args: [taskId: string, options: TaskStateOptions, taskType: TaskType]
+    response: TaskState
+  }
+  getTaskLevelDBPath: { args: []; response: string }
+  getBasePath: { args: []; response: string }
+  getRound: { args: []; response: number }
+  defaultTaskSetup: { args: []; response: any }
+  getTaskSubmissionInfo: {
+    args: [round: number]
+    response: TaskSubmissionState
+  }
+  getSubmitterAccount: {
+    args: [taskType?: TaskType]
+    response: SubmitterAccountResponse
+  }
+  getTaskNodeVersion: { args: []; response: string }
+  auditSubmission: {
+    args: [candidatePubkey: PublicKey, isValid: boolean, round: number]
+    response: any
+  }
+  distributionListSubmissionOnChain: { args: [round: number]; response: any }
+  uploadDistributionList: {
+    args: [distributionList: Record<string, any>, round: number]
+    response: boolean
+  }
+  getTaskDistributionInfo: {
+    args: [round: number]
+    response: TaskDistributionInfo
+  }
+  distributionListAuditSubmission: {
+    args: [candidatePubkey: PublicKey, isValid: boolean, round: number]
+    response: any
+  }
+  getDistributionList: {
+    args: [publicKey: string, round: number]
+    response: any
+  }
+  getAverageSlotTime: { args: []; response: number }
+  payloadTrigger: { args: [round: number]; response: any }
+}
+
+export type TaskNodeAction = keyof TaskNodeActions
+
+export type TaskNodeArgs<A extends TaskNodeAction> = TaskNodeActions[A]['args']
+
+export type TaskNodeResponse<A extends TaskNodeAction> =
+  TaskNodeActions[A]['response']
+
+// Every client call resolves to one of these, never throws
+export type TaskNodeResult<T, E extends Error = Error> =
+  { ok: true; data: T } | { ok: false; error: E }
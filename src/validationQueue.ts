@@ -0,0 +1,169 @@
+import { Logger } from './logger'
+
+export type TimeoutAction = 'skip' | 'voteFalse' | 'retry'
+
+export interface ValidationOptions {
+  // Validations running at the same time, defaults to 1
+  concurrency?: number
+  // Milliseconds a single validation may take, no limit by default
+  timeout?: number
+  // What to do when a validation times out, defaults to 'skip'
+  onTimeout?: TimeoutAction
+  // Extra attempts when onTimeout is 'retry', defaults to 1
+  retries?: number
+}
+
+export type ValidationStatus = 'valid' | 'invalid' | 'timeout' | 'error'
+
+export interface ValidationOutcome {
+  candidate: string
+  status: ValidationStatus
+  // The vote to send, undefined when no vote should be sent
+  vote?: boolean
+  attempts: number
+  durationMs: number
+  error?: unknown
+}
+
+export type CandidateValidator = (
+  candidate: string,
+  signal: AbortSignal,
+) => Promise<boolean>
+
+export class ValidationTimeoutError extends Error {
+  constructor(
+    public candidate: string,
+    public timeout: number,
+  ) {
+    super(`Validation of ${candidate} timed out after ${timeout}ms`)
+    this.name = 'ValidationTimeoutError'
+  }
+}
+
+async function validateWithTimeout(
+  candidate: string,
+  validate: CandidateValidator,
+  timeout: number | undefined,
+): Promise<boolean> {
+  const controller = new AbortController()
+  if (!timeout) return validate(candidate, controller.signal)
+  let timer: NodeJS.Timeout | undefined
+  try {
+    return await Promise.race([
+      validate(candidate, controller.signal),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          controller.abort()
+          reject(new ValidationTimeoutError(candidate, timeout))
+        }, timeout)
+      }),
+    ])
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+async function validateCandidate(
+  candidate: string,
+  validate: CandidateValidator,
+  options: ValidationOptions,
+  log: Logger,
+): Promise<ValidationOutcome> {
+  const { timeout, onTimeout = 'skip', retries = 1 } = options
+  const maxAttempts = onTimeout === 'retry' ? retries + 1 : 1
+  const start = Date.now()
+  let attempts = 0
+  let lastError: unknown
+  while (attempts < maxAttempts) {
+    attempts++
+    try {
+      const isValid = await validateWithTimeout(candidate, validate, timeout)
+      return {
+        candidate,
+        status: isValid ? 'valid' : 'invalid',
+        vote: isValid,
+        attempts,
+        durationMs: Date.now() - start,
+      }
+    } catch (error) {
+      lastError = error
+      if (!(error instanceof ValidationTimeoutError)) {
+        return {
+          candidate,
+          status: 'error',
+          attempts,
+          durationMs: Date.now() - start,
+          error,
+        }
+      }
+      log.warn(error.message, {
+        candidate,
+        attempt: attempts,
+        maxAttempts,
+      })
+    }
+  }
+  return {
+    candidate,
+    status: 'timeout',
+    vote: onTimeout === 'voteFalse' ? false : undefined,
+    attempts,
+    durationMs: Date.now() - start,
+    error: lastError,
+  }
+}
+
+/**
+ * Validates candidates with at most `concurrency` validations in flight.
+ * `onResult` is called one outcome at a time in candidate order, as soon as
+ * every earlier candidate is done, so audit transactions keep their order.
+ * Timeouts and failing `onResult` calls are logged to `log`.
+ */
+export async function runValidations(
+  candidates: string[],
+  validate: CandidateValidator,
+  onResult: (outcome: ValidationOutcome) => Promise<void>,
+  options: ValidationOptions = {},
+  log: Logger = new Logger(),
+): Promise<ValidationOutcome[]> {
+  const concurrency = Math.max(1, options.concurrency ?? 1)
+  const outcomes: ValidationOutcome[] = new Array(candidates.length)
+  let nextToValidate = 0
+  let nextToReport = 0
+  let reporting = Promise.resolve()
+
+  const report = () => {
+    reporting = reporting.then(async () => {
+      while (nextToReport < candidates.length && outcomes[nextToReport]) {
+        const outcome = outcomes[nextToReport++]
+        try {
+          await onResult(outcome)
+        } catch (error) {
+          log.error('Error handling validation outcome', {
+            candidate: outcome.candidate,
+            error,
+          })
+        }
+      }
+    })
+  }
+
+  const worker = async () => {
+    while (nextToValidate < candidates.length) {
+      const index = nextToValidate++
+      outcomes[index] = await validateCandidate(
+        candidates[index],
+        validate,
+        options,
+        log,
+      )
+      report()
+    }
+  }
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, candidates.length) }, worker),
+  )
+  await reporting
+  return outcomes
+}
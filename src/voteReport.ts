@@ -0,0 +1,84 @@
+import { ValidationOutcome, ValidationStatus } from './validationQueue'
+
+export type VoteKind = 'submission' | 'distribution'
+
+/**
+ * What the audit loop did on chain for a candidate. A false vote raises an
+ * audit when there is no trigger yet and joins the existing one otherwise.
+ */
+export type VoteAction = 'none' | 'raisedAudit' | 'votedTrue' | 'votedFalse'
+
+export interface VoteReport {
+  round: number
+  kind: VoteKind
+  candidate: string
+  sampled: boolean
+  status: ValidationStatus | 'skipped'
+  isValid?: boolean
+  reason: string
+  // Only set for submissions fetched from IPFS
+  hashCheck?: 'passed' | 'failed'
+  action: VoteAction
+  error?: string
+  attempts: number
+  durationMs: number
+}
+
+export function voteReportKey(kind: VoteKind, round: number): string {
+  return `voteReports:${kind}:${round}`
+}
+
+export function voteAction(isValid: boolean, hasTrigger: boolean): VoteAction {
+  if (isValid) return hasTrigger ? 'votedTrue' : 'none'
+  return hasTrigger ? 'votedFalse' : 'raisedAudit'
+}
+
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+export function skippedReport(
+  kind: VoteKind,
+  round: number,
+  candidate: string,
+  reason: string,
+): VoteReport {
+  return {
+    round,
+    kind,
+    candidate,
+    sampled: false,
+    status: 'skipped',
+    reason,
+    action: 'none',
+    attempts: 0,
+    durationMs: 0,
+  }
+}
+
+export function outcomeReport(
+  kind: VoteKind,
+  round: number,
+  outcome: ValidationOutcome,
+  reason?: string,
+): VoteReport {
+  const defaultReasons: Record<ValidationStatus, string> = {
+    valid: 'validation passed',
+    invalid: 'validation failed',
+    timeout: `validation timed out after ${outcome.attempts} attempt(s)`,
+    error: 'validation threw an error',
+  }
+  return {
+    round,
+    kind,
+    candidate: outcome.candidate,
+    sampled: true,
+    status: outcome.status,
+    isValid: outcome.vote,
+    reason: reason ?? defaultReasons[outcome.status],
+    action: 'none',
+    error: outcome.status === 'error' ? errorMessage(outcome.error) : undefined,
+    attempts: outcome.attempts,
+    durationMs: outcome.durationMs,
+  }
+}
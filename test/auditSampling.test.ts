@@ -0,0 +1,165 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  SamplingContext,
+  SamplingStrategies,
+  SamplingStrategy,
+} from '../src/auditSampling'
+import { PeerReputation } from '../src/reputation'
+import { AuditTriggerState } from '../src/types'
+
+const CANDIDATES = ['node-a', 'node-b', 'node-c', 'node-d', 'node-e', 'node-f']
+
+function reputation(
+  publicKey: string,
+  submissions: number,
+  failed: number,
+): PeerReputation {
+  return {
+    publicKey,
+    submissions,
+    distributions: 0,
+    submissionAudits: { failed, passed: 0, undecided: 0 },
+    distributionAudits: { failed: 0, passed: 0, undecided: 0 },
+    votes: { cast: 0, withOutcome: 0, againstOutcome: 0 },
+    firstRound: null,
+    lastRound: null,
+  }
+}
+
+function context(overrides: Partial<SamplingContext> = {}): SamplingContext {
+  return {
+    round: 7,
+    candidates: CANDIDATES,
+    submissions: {},
+    auditTriggers: {},
+    selfPublicKey: 'node-self',
+    getStakeList: async () => ({}),
+    getPeerReputation: async (publicKey) => reputation(publicKey, 0, 0),
+    ...overrides,
+  }
+}
+
+// A base strategy that returns the candidates in reverse order
+const reversed: SamplingStrategy = (sampling) =>
+  [...sampling.candidates].reverse()
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('SamplingStrategies.all', () => {
+  it('returns every candidate', () => {
+    expect(SamplingStrategies.all()(context())).toEqual(CANDIDATES)
+  })
+})
+
+describe('SamplingStrategies.random', () => {
+  it('picks up to `sampleSize` distinct candidates', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0)
+    expect(await SamplingStrategies.random(3)(context())).toEqual([
+      'node-a',
+      'node-b',
+      'node-c',
+    ])
+    expect(await SamplingStrategies.random(10)(context())).toHaveLength(6)
+  })
+})
+
+describe('SamplingStrategies.deterministic', () => {
+  const deterministic = SamplingStrategies.deterministic(3)
+
+  it('gives a node the same sample wherever it is computed', async () => {
+    const sample = await deterministic(context())
+    expect(new Set(sample).size).toBe(3)
+    expect(
+      await deterministic(context({ candidates: [...CANDIDATES].reverse() })),
+    ).toEqual(sample)
+  })
+
+  it('samples differently per round and per node', async () => {
+    const samples = new Set<string>()
+    for (let round = 0; round < 5; round++) {
+      for (const selfPublicKey of ['node-x', 'node-y']) {
+        samples.add(
+          JSON.stringify(
+            await deterministic(context({ round, selfPublicKey })),
+          ),
+        )
+      }
+    }
+    expect(samples.size).toBeGreaterThan(1)
+  })
+})
+
+describe('SamplingStrategies.stakeWeighted', () => {
+  it('favours stake and picks unstaked candidates last', async () => {
+    const stakes: Record<string, number> = {
+      'node-a': 1,
+      'node-b': 1e12,
+      'node-c': 1,
+      'node-d': 0,
+    }
+    const candidates = Object.keys(stakes)
+    for (let round = 0; round < 10; round++) {
+      const sample = await SamplingStrategies.stakeWeighted(4)(
+        context({ round, candidates, getStakeList: async () => stakes }),
+      )
+      expect(sample[0]).toBe('node-b')
+      expect(sample[3]).toBe('node-d')
+    }
+  })
+
+  it('is seeded like deterministic sampling', async () => {
+    const getStakeList = async () =>
+      Object.fromEntries(CANDIDATES.map((candidate) => [candidate, 10]))
+    const stakeWeighted = SamplingStrategies.stakeWeighted(2)
+    expect(await stakeWeighted(context({ getStakeList }))).toEqual(
+      await stakeWeighted(
+        context({ getStakeList, candidates: [...CANDIDATES].reverse() }),
+      ),
+    )
+  })
+})
+
+describe('SamplingStrategies.prioritizeTriggered', () => {
+  const auditTriggers = {
+    'node-b': {} as AuditTriggerState,
+    'node-e': {} as AuditTriggerState,
+  }
+
+  it('puts triggered candidates first, then the base sample', async () => {
+    expect(
+      await SamplingStrategies.prioritizeTriggered(
+        reversed,
+        4,
+      )(context({ auditTriggers })),
+    ).toEqual(['node-b', 'node-e', 'node-f', 'node-d'])
+  })
+
+  it('keeps every triggered candidate beyond the sample size', async () => {
+    expect(
+      await SamplingStrategies.prioritizeTriggered(
+        reversed,
+        1,
+      )(context({ auditTriggers })),
+    ).toEqual(['node-b', 'node-e'])
+  })
+})
+
+describe('SamplingStrategies.prioritizeOffenders', () => {
+  it('puts low scores first, worst first, then the base sample', async () => {
+    const reputations: Record<string, PeerReputation> = {
+      'node-a': reputation('node-a', 10, 5),
+      'node-c': reputation('node-c', 10, 9),
+      'node-d': reputation('node-d', 10, 1),
+    }
+    const getPeerReputation = async (publicKey: string) =>
+      reputations[publicKey] ?? reputation(publicKey, 0, 0)
+    expect(
+      await SamplingStrategies.prioritizeOffenders(
+        reversed,
+        4,
+      )(context({ getPeerReputation })),
+    ).toEqual(['node-c', 'node-a', 'node-f', 'node-e'])
+  })
+})
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { AddressInfo } from 'net'
+import {
+  canonicalStringify,
+  hashJson,
+  stringifyForSigning,
+} from '../src/canonicalJson'
+import { Logger } from '../src/logger'
+import type { NamespaceWrapper } from '../src/namespaceWrapper'
+import type { TaskNodeEmulator } from '../src/taskNodeEmulator'
+import { hasWeb3 } from './web3'
+
+describe('canonicalStringify', () => {
+  it('sorts object keys at every depth', () => {
+    expect(canonicalStringify({ b: 1, a: { d: [3, 2], c: null } })).toBe(
+      '{"a":{"c":null,"d":[3,2]},"b":1}',
+    )
+    expect(canonicalStringify({ b: 1, a: 2 })).toBe(
+      canonicalStringify({ a: 2, b: 1 }),
+    )
+    expect(canonicalStringify({ '10': 1, '2': 2, B: 3, a: 4 })).toBe(
+      '{"10":1,"2":2,"B":3,"a":4}',
+    )
+  })
+
+  it('keeps array order and sorts objects inside nested arrays', () => {
+    expect(
+      canonicalStringify([
+        [{ y: 1, x: 2 }, []],
+        [null, 'z'],
+      ]),
+    ).toBe('[[{"x":2,"y":1},[]],[null,"z"]]')
+  })
+
+  it('drops undefined members and nulls undefined array items', () => {
+    expect(
+      canonicalStringify({ a: undefined, b: [undefined, () => 1], c: 1 }),
+    ).toBe('{"b":[null,null],"c":1}')
+  })
+
+  it('uses toJSON and the shortest number form', () => {
+    expect(canonicalStringify({ at: new Date(0), n: -0, f: 1e21 })).toBe(
+      '{"at":"1970-01-01T00:00:00.000Z","f":1e+21,"n":0}',
+    )
+  })
+
+  it('rejects NaN, Infinity, BigInt and circular values', () => {
+    expect(() => canonicalStringify({ n: NaN })).toThrow(
+      'Cannot serialize NaN as canonical JSON',
+    )
+    expect(() => canonicalStringify([-Infinity])).toThrow(
+      'Cannot serialize -Infinity as canonical JSON',
+    )
+    expect(() => canonicalStringify({ n: BigInt(1) })).toThrow(
+      'Cannot serialize a BigInt as canonical JSON',
+    )
+    const circular: Record<string, unknown> = {}
+    circular.self = circular
+    expect(() => canonicalStringify(circular)).toThrow(TypeError)
+    expect(() => canonicalStringify(undefined)).toThrow(
+      'Cannot serialize undefined as canonical JSON',
+    )
+  })
+
+  it('allows the same object twice when it is not its own ancestor', () => {
+    const shared = { a: 1 }
+    expect(canonicalStringify([shared, { shared }])).toBe(
+      '[{"a":1},{"shared":{"a":1}}]',
+    )
+  })
+})
+
+describe('stringifyForSigning', () => {
+  it('is canonical unless legacy is chosen', () => {
+    const value = { b: 1, a: 2 }
+    expect(stringifyForSigning(value)).toBe('{"a":2,"b":1}')
+    expect(stringifyForSigning(value, 'legacy')).toBe('{"b":1,"a":2}')
+    expect(hashJson(value)).toBe(hashJson({ a: 2, b: 1 }))
+    expect(hashJson(value, 'legacy')).not.toBe(hashJson({ a: 2, b: 1 }))
+  })
+})
+
+describe.skipIf(!hasWeb3)('NamespaceWrapper payloadSigning', () => {
+  let emulator: TaskNodeEmulator
+  let wrapper: NamespaceWrapper
+
+  beforeEach(async () => {
+    const { TaskNodeEmulator } = await import('../src/taskNodeEmulator')
+    const { createNamespaceWrapper } = await import('../src/namespaceWrapper')
+    emulator = new TaskNodeEmulator({
+      taskId: 'task1',
+      secret: 'secret',
+      autoAdvance: false,
+    })
+    const server = await emulator.listen(0)
+    wrapper = createNamespaceWrapper({
+      config: {
+        taskId: 'task1',
+        secretKey: 'secret',
+        taskNodePort: (server.address() as AddressInfo).port,
+        storageBackend: 'memory',
+      },
+      logger: new Logger({ sinks: [] }),
+    })
+  })
+
+  afterEach(async () => {
+    await emulator.close()
+  })
+
+  it('has the task node sign the canonical string', async () => {
+    const publicKey = emulator.mainKeypair.publicKey.toBase58()
+    // Keys that look like array indexes come first in a parsed object
+    const body = { b: 1, '9': 2, a: { '10': 3, '9': 4 } }
+    const signed = await wrapper.payloadSigning(body)
+    expect(await wrapper.verifySignature(signed!, publicKey)).toEqual({
+      data: canonicalStringify(body),
+    })
+  })
+})
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { ConfigError, loadConfig } from '../src/config'
+
+describe('loadConfig', () => {
+  it('reads KOII_ environment variables only', () => {
+    const config = loadConfig({
+      argv: [],
+      env: { TASK_ID: 'stray', SECRET_KEY: 'x', KOII_EXPRESS_PORT: '3001' },
+    })
+    expect(config.taskId).toBeUndefined()
+    expect(config.secretKey).toBe('')
+    expect(config.expressPort).toBe(3001)
+  })
+
+  it('keeps the names older versions read', () => {
+    const config = loadConfig({
+      argv: [],
+      env: { K2_URL: 'http://k2.local', STAKING_WALLET_PATH: './wallet.json' },
+    })
+    expect(config.k2NodeUrl).toBe('http://k2.local')
+    expect(config.stakingWalletPath).toBe('./wallet.json')
+  })
+
+  it('skips unknown flags with their value', () => {
+    const config = loadConfig({
+      argv: ['--verbose', 'yes', 'MyTask', '--log-level', 'debug', '--dry-run'],
+      env: {},
+    })
+    expect(config.taskName).toBe('MyTask')
+    expect(config.taskId).toBeUndefined()
+    expect(config.logLevel).toBe('debug')
+  })
+
+  it('lists every problem in a ConfigError', () => {
+    let error: unknown
+    try {
+      loadConfig({ argv: [], env: { KOII_TASK_ID: 'task123' } })
+    } catch (e) {
+      error = e
+    }
+    expect(error).toBeInstanceOf(ConfigError)
+    expect((error as ConfigError).problems).toEqual([
+      'secretKey is required when running under a task node',
+      'taskNodePort is required when running under a task node',
+    ])
+  })
+})
@@ -0,0 +1,189 @@
+import { createHash } from 'crypto'
+import { mkdtempSync, mkdirSync, writeFileSync, existsSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { describe, expect, it } from 'vitest'
+import { CODEC_DAG_PB, CODEC_RAW, formatCid } from '../src/cid'
+import {
+  ContentProvider,
+  ContentRetriever,
+  LocalDirectoryProvider,
+} from '../src/contentRetrieval'
+
+const sha256 = (bytes: Uint8Array) =>
+  createHash('sha256').update(bytes).digest()
+
+const rawCid = (content: Uint8Array) =>
+  formatCid({
+    version: 1,
+    codec: CODEC_RAW,
+    hashCode: 0x12,
+    digest: sha256(content),
+  })
+
+// dag-pb directory block with a single link to a raw block
+function directoryBlock(fileName: string, content: Uint8Array): Buffer {
+  const hash = Buffer.from([0x01, CODEC_RAW, 0x12, 0x20, ...sha256(content)])
+  const name = Buffer.from(fileName)
+  const link = Buffer.from([
+    0x0a,
+    hash.length,
+    ...hash,
+    0x12,
+    name.length,
+    ...name,
+    0x18,
+    content.length,
+  ])
+  return Buffer.from([0x12, link.length, ...link, 0x0a, 0x02, 0x08, 0x01])
+}
+
+const content = Buffer.from('{"round":4}')
+const tampered = Buffer.from('{"round":5}')
+const directory = directoryBlock('submission.json', content)
+const directoryCid = formatCid({
+  version: 1,
+  codec: CODEC_DAG_PB,
+  hashCode: 0x12,
+  digest: sha256(directory),
+})
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Answers after `ms`, checkable when it serves raw blocks
+function provider(
+  name: string,
+  body: Uint8Array,
+  options: { ms?: number; blocks?: boolean } = {},
+): ContentProvider {
+  const result: ContentProvider = {
+    name,
+    async fetch() {
+      await delay(options.ms ?? 0)
+      return body
+    },
+  }
+  if (options.blocks) {
+    result.fetchBlock = async () => directory
+  }
+  return result
+}
+
+describe('ContentRetriever', () => {
+  it('prefers verified content over an earlier unverifiable answer', async () => {
+    const retriever = new ContentRetriever({
+      providers: [
+        provider('fast', tampered),
+        provider('checked', content, { ms: 20, blocks: true }),
+      ],
+    })
+    const result = await retriever.retrieve(directoryCid, 'submission.json')
+    expect(Buffer.from(result)).toEqual(content)
+  })
+
+  it('rejects content that does not match', async () => {
+    const retriever = new ContentRetriever({
+      providers: [provider('checked', tampered, { blocks: true })],
+    })
+    await expect(
+      retriever.retrieve(directoryCid, 'submission.json'),
+    ).rejects.toThrow(`Failed to get ${directoryCid} from IPFS`)
+  })
+
+  it('falls back to unverifiable content', async () => {
+    const retriever = new ContentRetriever({
+      providers: [provider('unchecked', tampered)],
+    })
+    const result = await retriever.retrieve(directoryCid, 'submission.json')
+    expect(Buffer.from(result)).toEqual(tampered)
+  })
+
+  it('never falls back when verification is required', async () => {
+    const retriever = new ContentRetriever({
+      providers: [provider('unchecked', tampered)],
+      requireVerification: true,
+    })
+    await expect(
+      retriever.retrieve(directoryCid, 'submission.json'),
+    ).rejects.toThrow('Failed to get')
+  })
+
+  it('aborts the gateway requests with the signal', async () => {
+    const signals: AbortSignal[] = []
+    const retriever = new ContentRetriever({
+      providers: [
+        {
+          name: 'hanging',
+          fetch: (cid, fileName, signal) => {
+            signals.push(signal)
+            return new Promise(() => {})
+          },
+        },
+      ],
+    })
+    const controller = new AbortController()
+    const retrieval = retriever.retrieve(rawCid(content), '', controller.signal)
+    await delay(10)
+    controller.abort(new Error('Validation timed out'))
+    await expect(retrieval).rejects.toThrow('Validation timed out')
+    expect(signals.map((signal) => signal.aborted)).toEqual([true])
+  })
+
+  it('caches verified content under the CID', async () => {
+    const cacheDir = mkdtempSync(join(tmpdir(), 'content-cache-'))
+    const cid = rawCid(content)
+    const retriever = new ContentRetriever({
+      providers: [provider('checked', content)],
+      cacheDir,
+    })
+    await retriever.retrieve(cid)
+    expect(existsSync(join(cacheDir, cid, '_content'))).toBe(true)
+  })
+
+  it('never reads the cache out of the CID directory', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'content-cache-'))
+    writeFileSync(join(root, 'planted'), 'planted')
+    const retriever = new ContentRetriever({
+      providers: [],
+      cacheDir: join(root, 'cache'),
+    })
+    await expect(retriever.retrieve('..', 'planted')).rejects.toThrow(
+      'Failed to get',
+    )
+    await expect(
+      retriever.retrieve(rawCid(content), '../../planted'),
+    ).rejects.toThrow('Failed to get')
+  })
+})
+
+describe('LocalDirectoryProvider', () => {
+  const root = mkdtempSync(join(tmpdir(), 'content-local-'))
+  const cid = rawCid(content)
+  mkdirSync(join(root, cid))
+  writeFileSync(join(root, cid, 'submission.json'), content)
+  writeFileSync(join(root, 'secret'), 'secret')
+  const local = new LocalDirectoryProvider(root)
+
+  it('serves files below the CID', async () => {
+    const result = await local.fetch(cid, 'submission.json')
+    expect(Buffer.from(result)).toEqual(content)
+  })
+
+  it('rejects malformed CIDs and paths out of the CID', async () => {
+    await expect(local.fetch('..', 'secret')).rejects.toThrow('Invalid CID')
+    await expect(local.fetch(cid, '../secret')).rejects.toThrow('Invalid CID')
+    await expect(local.fetch('../content-local', '')).rejects.toThrow(
+      'Invalid CID',
+    )
+  })
+
+  it('is used without waiting for checked content', async () => {
+    const retriever = new ContentRetriever({
+      providers: [local, provider('slow', content, { ms: 2000 })],
+    })
+    const started = Date.now()
+    const result = await retriever.retrieve(cid, 'submission.json')
+    expect(Buffer.from(result)).toEqual(content)
+    expect(Date.now() - started).toBeLessThan(1000)
+  })
+})
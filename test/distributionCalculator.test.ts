@@ -0,0 +1,231 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DistributionCalculator,
+  DistributionInput,
+  DistributionStrategies,
+  getAuditOutcome,
+  parseDistributionList,
+} from '../src/distributionCalculator'
+import { LogRecord, Logger } from '../src/logger'
+import { AuditTriggerState, TaskState } from '../src/types'
+
+const vote = (is_valid: boolean, voter: string) => ({
+  is_valid,
+  voter,
+  slot: 10,
+})
+
+const trigger = (...votes: boolean[]) =>
+  ({
+    trigger_by: 'node-z',
+    slot: 5,
+    votes: votes.map((isValid, i) => vote(isValid, `voter-${i}`)),
+  }) as unknown as AuditTriggerState
+
+function input(
+  stakeList: Record<string, number>,
+  bountyAmountPerRound: number,
+  auditTriggers: Record<string, AuditTriggerState> = {},
+): DistributionInput {
+  const submissions: DistributionInput['submissions'] = {}
+  for (const key of Object.keys(stakeList)) {
+    submissions[key] = { submission_value: `cid-${key}`, slot: 1, round: 3 }
+  }
+  return {
+    round: 3,
+    submissions,
+    auditTriggers,
+    stakeList,
+    bountyAmountPerRound,
+  }
+}
+
+const sum = (list: Record<string, number>) =>
+  Object.values(list).reduce((acc, amount) => acc + amount, 0)
+
+describe('getAuditOutcome', () => {
+  it('passes without a trigger and fails a trigger nobody voted on', () => {
+    expect(getAuditOutcome(undefined)).toBe('passed')
+    expect(getAuditOutcome(trigger())).toBe('failed')
+  })
+
+  it('follows the vote balance', () => {
+    expect(getAuditOutcome(trigger(true, true, false))).toBe('passed')
+    expect(getAuditOutcome(trigger(true, false, false))).toBe('failed')
+    expect(getAuditOutcome(trigger(true, false))).toBe('undecided')
+  })
+})
+
+describe('DistributionStrategies.equalSplit', () => {
+  const equalSplit = DistributionStrategies.equalSplit()
+
+  it('splits the whole bounty, the extra lamports to the lower keys', () => {
+    const list = equalSplit(
+      input({ 'node-c': 1, 'node-a': 1, 'node-b': 1 }, 100),
+    )
+    expect(list).toEqual({ 'node-a': 34, 'node-b': 33, 'node-c': 33 })
+    expect(sum(list)).toBe(100)
+  })
+
+  it('leaves the remainder unallocated when asked to', () => {
+    const list = DistributionStrategies.equalSplit({
+      remainder: 'unallocated',
+    })(input({ 'node-a': 1, 'node-b': 1, 'node-c': 1 }, 100))
+    expect(list).toEqual({ 'node-a': 33, 'node-b': 33, 'node-c': 33 })
+  })
+
+  it('gives a single node the whole bounty', () => {
+    expect(equalSplit(input({ 'node-a': 0 }, 1000000007))).toEqual({
+      'node-a': 1000000007,
+    })
+  })
+
+  it('splits a bounty smaller than the node count lamport by lamport', () => {
+    const list = equalSplit(input({ 'node-a': 1, 'node-b': 1, 'node-c': 1 }, 2))
+    expect(list).toEqual({ 'node-a': 1, 'node-b': 1, 'node-c': 0 })
+    expect(sum(list)).toBe(2)
+  })
+
+  it('leaves out submitters that lost or did not win their audit', () => {
+    const list = equalSplit(
+      input({ 'node-a': 1, 'node-b': 1, 'node-c': 1 }, 10, {
+        'node-b': trigger(false),
+        'node-c': trigger(true, false),
+      }),
+    )
+    expect(list).toEqual({ 'node-a': 10 })
+  })
+
+  it('returns an empty list without submitters', () => {
+    expect(equalSplit(input({}, 100))).toEqual({})
+  })
+})
+
+describe('DistributionStrategies.stakeProportional', () => {
+  const stakeProportional = DistributionStrategies.stakeProportional()
+
+  it('hands out the remainder by largest remainder', () => {
+    // Exact shares 1.67, 3.33 and 5, so node-a has the largest remainder
+    const list = stakeProportional(
+      input({ 'node-a': 1, 'node-b': 2, 'node-c': 3 }, 10),
+    )
+    expect(list).toEqual({ 'node-a': 2, 'node-b': 3, 'node-c': 5 })
+  })
+
+  it('is lamport exact where floating point is not', () => {
+    const bounty = Number.MAX_SAFE_INTEGER
+    const list = stakeProportional(
+      input(
+        { 'node-a': 3000000000, 'node-b': 3000000000, 'node-c': 1 },
+        bounty,
+      ),
+    )
+    expect(
+      BigInt(list['node-a']) + BigInt(list['node-b']) + BigInt(list['node-c']),
+    ).toBe(BigInt(bounty))
+    expect(list['node-a'] - list['node-b']).toBeLessThanOrEqual(1)
+  })
+
+  it('gives nothing to a node without stake', () => {
+    const list = stakeProportional(input({ 'node-a': 5, 'node-b': 0 }, 7))
+    expect(list).toEqual({ 'node-a': 7, 'node-b': 0 })
+  })
+
+  it('splits equally when no submitter has stake', () => {
+    const list = stakeProportional(input({ 'node-a': 0, 'node-b': 0 }, 7))
+    expect(list).toEqual({ 'node-a': 4, 'node-b': 3 })
+  })
+})
+
+describe('DistributionStrategies.withAuditPenalty', () => {
+  it('adds a negative entry for nodes that lost their audit', () => {
+    const strategy = DistributionStrategies.withAuditPenalty(
+      DistributionStrategies.equalSplit(),
+      { penaltyPercentage: 0.5 },
+    )
+    const list = strategy(
+      input({ 'node-a': 1000, 'node-b': 1001, 'node-c': 0 }, 10, {
+        'node-b': trigger(false, false),
+        'node-c': trigger(),
+      }),
+    )
+    // node-c has no stake to take
+    expect(list).toEqual({ 'node-a': 10, 'node-b': -500 })
+  })
+})
+
+describe('DistributionCalculator', () => {
+  const calculator = new DistributionCalculator()
+  const roundInput = input({ 'node-a': 1, 'node-b': 1 }, 11)
+
+  it('accepts only the exact list', () => {
+    expect(
+      calculator.validate({ 'node-a': 6, 'node-b': 5 }, roundInput).valid,
+    ).toBe(true)
+    const result = calculator.validate(
+      { 'node-a': 5, 'node-b': 5, 'node-x': 1 },
+      roundInput,
+    )
+    expect(result.valid).toBe(false)
+    expect(result.mismatches).toEqual([
+      { publicKey: 'node-a', expected: 6, actual: 5 },
+      { publicKey: 'node-x', expected: undefined, actual: 1 },
+    ])
+  })
+
+  it('audits submitted lists against the task state', async () => {
+    const records: LogRecord[] = []
+    const taskState = {
+      submissions: { 3: roundInput.submissions },
+      submissions_audit_trigger: {},
+      stake_list: roundInput.stakeList,
+      bounty_amount_per_round: 11,
+    } as unknown as TaskState
+    const lists: Record<string, unknown> = {
+      'node-a': JSON.stringify({ 'node-a': 6, 'node-b': 5 }),
+      'node-b': Buffer.from(JSON.stringify({ 'node-a': 11 })),
+    }
+    const audit = calculator.auditor({
+      getDistributionList: async (publicKey) => lists[publicKey] ?? null,
+      getTaskState: async () => taskState,
+      log: new Logger({ sinks: [{ write: (record) => records.push(record) }] }),
+    })
+    expect(await audit('node-a', 3)).toBe(true)
+    expect(await audit('node-b', 3)).toBe(false)
+    expect(await audit('node-c', 3)).toBe(false)
+    expect(records.map(({ msg, candidate }) => [msg, candidate])).toEqual([
+      ['Distribution list mismatch', 'node-b'],
+      ['Could not read distribution list', 'node-c'],
+    ])
+  })
+})
+
+describe('parseDistributionList', () => {
+  const list = { 'node-a': 6, 'node-b': -5 }
+
+  it('reads strings, Buffers, serialized Buffers and objects', () => {
+    const buffer = Buffer.from(JSON.stringify(list))
+    expect(parseDistributionList(JSON.stringify(list))).toEqual(list)
+    expect(parseDistributionList(buffer)).toEqual(list)
+    expect(parseDistributionList(buffer.toJSON())).toEqual(list)
+    expect(parseDistributionList(list)).toEqual(list)
+  })
+
+  it('rejects what is not a list of amounts', () => {
+    const records: LogRecord[] = []
+    const log = new Logger({
+      sinks: [{ write: (record) => records.push(record) }],
+    })
+    expect(parseDistributionList(null)).toBeNull()
+    expect(parseDistributionList('{not json', log)).toBeNull()
+    expect(parseDistributionList('[1, 2]')).toBeNull()
+    expect(parseDistributionList({ 'node-a': '6' })).toBeNull()
+    expect(parseDistributionList(42)).toBeNull()
+    expect(records).toEqual([
+      expect.objectContaining({
+        level: 'warn',
+        msg: 'Error parsing distribution list',
+      }),
+    ])
+  })
+})
@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { HealthCheck, runHealthChecks } from '../src/health'
+import { Logger } from '../src/logger'
+import { hasWeb3 } from './web3'
+
+const pass: HealthCheck = {
+  critical: true,
+  run: async () => ({ status: 'pass' }),
+}
+
+function failing(critical: boolean): HealthCheck {
+  return {
+    critical,
+    run: async () => {
+      throw new Error('down')
+    },
+  }
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('runHealthChecks', () => {
+  it('is healthy and ready when every check passes or skips', async () => {
+    const report = await runHealthChecks({
+      db: pass,
+      rpc: { critical: true, run: async () => ({ status: 'skip' }) },
+    })
+    expect(report).toMatchObject({
+      healthy: true,
+      ready: true,
+      checks: { db: { status: 'pass' }, rpc: { status: 'skip' } },
+    })
+    expect(report.checks.db.durationMs).toEqual(expect.any(Number))
+  })
+
+  it('is not ready when any check fails, unhealthy when a critical one does', async () => {
+    const optional = await runHealthChecks({ db: pass, round: failing(false) })
+    expect(optional).toMatchObject({ healthy: true, ready: false })
+    expect(optional.checks.round).toMatchObject({
+      status: 'fail',
+      error: 'down',
+    })
+
+    const critical = await runHealthChecks({ db: failing(true) })
+    expect(critical).toMatchObject({ healthy: false, ready: false })
+  })
+
+  it('fails a check that runs past 5 seconds', async () => {
+    vi.useFakeTimers()
+    const checking = runHealthChecks({
+      db: pass,
+      rpc: { critical: true, run: () => new Promise(() => {}) },
+    })
+    await vi.advanceTimersByTimeAsync(5000)
+    const report = await checking
+
+    expect(report.healthy).toBe(false)
+    expect(report.checks.db.status).toBe('pass')
+    expect(report.checks.rpc).toMatchObject({
+      status: 'fail',
+      error: 'rpc check timed out after 5000ms',
+      durationMs: 5000,
+    })
+    expect(vi.getTimerCount()).toBe(0)
+  })
+
+  it('takes another timeout', async () => {
+    vi.useFakeTimers()
+    const checking = runHealthChecks(
+      { rpc: { critical: true, run: () => new Promise(() => {}) } },
+      100,
+    )
+    await vi.advanceTimersByTimeAsync(100)
+    expect((await checking).checks.rpc.error).toBe(
+      'rpc check timed out after 100ms',
+    )
+  })
+})
+
+describe.skipIf(!hasWeb3)('NamespaceWrapper checkHealth', () => {
+  it('skips the task node, RPC and stake checks in testing mode', async () => {
+    const { createNamespaceWrapper } = await import('../src/namespaceWrapper')
+    const wrapper = createNamespaceWrapper({
+      config: { storageBackend: 'memory' },
+      logger: new Logger({ sinks: [] }),
+    })
+    const report = await wrapper.checkHealth()
+
+    expect(report).toMatchObject({ healthy: true, ready: true })
+    expect(report.checks).toMatchObject({
+      taskNode: { status: 'skip' },
+      db: { status: 'pass', details: { backend: 'memory', documents: 0 } },
+      rpc: { status: 'skip' },
+      round: { status: 'pass' },
+      slot: { status: 'pass' },
+      stake: { status: 'skip' },
+    })
+  })
+})
@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { MetricsRegistry } from '../src/metrics'
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('MetricsRegistry', () => {
+  it('renders counters, gauges and histograms', async () => {
+    const registry = new MetricsRegistry()
+    const requests = registry.counter('requests_total', 'Requests')
+    requests.inc({ route: '/a"b' })
+    requests.inc({ route: '/a"b' }, 2)
+    registry.gauge('queue_size', 'Items\nwaiting').set(4)
+    registry.histogram('duration_seconds', 'Duration', [1, 0.5]).observe(0.7)
+
+    expect(await registry.render()).toBe(
+      [
+        '# HELP requests_total Requests',
+        '# TYPE requests_total counter',
+        'requests_total{route="/a\\"b"} 3',
+        '# HELP queue_size Items waiting',
+        '# TYPE queue_size gauge',
+        'queue_size 4',
+        '# HELP duration_seconds Duration',
+        '# TYPE duration_seconds histogram',
+        'duration_seconds_bucket{le="0.5"} 0',
+        'duration_seconds_bucket{le="1"} 1',
+        'duration_seconds_bucket{le="+Inf"} 1',
+        'duration_seconds_sum 0.7',
+        'duration_seconds_count 1',
+        '',
+      ].join('\n'),
+    )
+  })
+
+  it('returns the registered metric for a name, of the same type only', () => {
+    const registry = new MetricsRegistry()
+    const counter = registry.counter('jobs_total', 'Jobs')
+    expect(registry.counter('jobs_total', 'Other help')).toBe(counter)
+    expect(() => registry.gauge('jobs_total', 'Jobs')).toThrow(
+      'Metric jobs_total is already registered as counter',
+    )
+    expect(() => registry.counter('jobs-total', 'Jobs')).toThrow(
+      'Invalid metric name jobs-total',
+    )
+    expect(() => counter.inc({}, -1)).toThrow(
+      'Counter jobs_total cannot decrease',
+    )
+  })
+
+  it('runs collectors before rendering and ignores failing ones', async () => {
+    const registry = new MetricsRegistry()
+    const round = registry.gauge('round', 'Round')
+    const slot = registry.gauge('slot', 'Slot')
+    slot.set(1)
+    registry.addCollector(async () => round.set(7))
+    registry.addCollector(() => {
+      throw new Error('RPC down')
+    })
+    registry.addCollector(async () => {
+      throw new Error('RPC down')
+    })
+
+    const rendered = await registry.render()
+    expect(rendered).toContain('round 7')
+    expect(rendered).toContain('slot 1')
+  })
+
+  it('renders without collectors that run past the timeout', async () => {
+    vi.useFakeTimers()
+    const registry = new MetricsRegistry({ collectorTimeout: 1000 })
+    const round = registry.gauge('round', 'Round')
+    round.set(1)
+    registry.addCollector(() => new Promise(() => {}))
+    registry.addCollector(async () => round.set(2))
+
+    const rendering = registry.render()
+    await vi.advanceTimersByTimeAsync(999)
+    let rendered: string | undefined
+    void rendering.then((text) => (rendered = text))
+    await Promise.resolve()
+    expect(rendered).toBeUndefined()
+
+    await vi.advanceTimersByTimeAsync(1)
+    expect(await rendering).toContain('round 2')
+    expect(vi.getTimerCount()).toBe(0)
+  })
+})
@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { LogRecord, Logger } from '../src/logger'
+import type { NamespaceWrapper } from '../src/namespaceWrapper'
+import { hasWeb3 } from './web3'
+
+describe.skipIf(!hasWeb3)('NamespaceWrapper store', () => {
+  let wrapper: NamespaceWrapper
+
+  beforeEach(async () => {
+    const { createNamespaceWrapper } = await import('../src/namespaceWrapper')
+    wrapper = createNamespaceWrapper({
+      config: { storageBackend: 'memory' },
+      logger: new Logger({ sinks: [] }),
+    })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('applies parallel updates to one key in turn', async () => {
+    await Promise.all(
+      Array.from({ length: 20 }, () =>
+        wrapper.storeUpdate<number>('counter', async (current) => {
+          await new Promise((resolve) => setTimeout(resolve, 1))
+          return (current ?? 0) + 1
+        }),
+      ),
+    )
+    expect(await wrapper.storeGet<number>('counter')).toBe(20)
+  })
+
+  it('keeps the value when the updater throws', async () => {
+    await wrapper.storeSet('greeting', 'before')
+    await expect(
+      wrapper.storeUpdate('greeting', () => {
+        throw new Error('updater failed')
+      }),
+    ).rejects.toThrow('updater failed')
+    expect(await wrapper.storeGet('greeting')).toBe('before')
+  })
+
+  it('lets one of two concurrent compare-and-sets win', async () => {
+    expect(
+      await Promise.all([
+        wrapper.storeCompareAndSet('owner', null, 'node-a'),
+        wrapper.storeCompareAndSet('owner', null, 'node-b'),
+      ]),
+    ).toEqual([true, false])
+    expect(await wrapper.storeGet('owner')).toBe('node-a')
+    expect(await wrapper.storeCompareAndSet('owner', 'node-b', 'node-c')).toBe(
+      false,
+    )
+  })
+
+  it('compares objects regardless of key order', async () => {
+    await wrapper.storeSet('state', { a: 1, b: [1, 2] })
+    expect(
+      await wrapper.storeCompareAndSet(
+        'state',
+        { b: [1, 2], a: 1 },
+        { a: 2, b: [] },
+      ),
+    ).toBe(true)
+    expect(await wrapper.storeGet('state')).toEqual({ a: 2, b: [] })
+  })
+
+  it('hides expired keys and purges them', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    await wrapper.storeSet('nonce', 'used', { ttl: 1000 })
+    await wrapper.storeSet('kept', 'value')
+    expect(await wrapper.storeKeys()).toEqual(['kept', 'nonce'])
+
+    vi.advanceTimersByTime(1001)
+    expect(await wrapper.storeGet('nonce')).toBeNull()
+    expect(await wrapper.storeKeys()).toEqual(['kept'])
+    expect(await wrapper.storeCompareAndSet('nonce', null, 'again')).toBe(true)
+
+    await wrapper.storeSet('nonce', 'used', { ttl: 1000 })
+    vi.advanceTimersByTime(1001)
+    expect(await wrapper.storePurgeExpired()).toBe(1)
+    expect(await (await wrapper.getStorage()).count({})).toBe(1)
+  })
+
+  it('purges expired keys while writing keys with a TTL', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    await wrapper.storeSet('first', 'value', { ttl: 1000 })
+    vi.advanceTimersByTime(60 * 1000)
+    await wrapper.storeSet('second', 'value', { ttl: 1000 })
+    await vi.waitFor(async () => {
+      const storage = await wrapper.getStorage()
+      expect(await storage.count({ key: 'first' })).toBe(0)
+    })
+    expect(await wrapper.storeGet('second')).toBe('value')
+  })
+})
+
+describe.skipIf(!hasWeb3)('NamespaceWrapper vote reports', () => {
+  let wrapper: NamespaceWrapper
+  let records: LogRecord[]
+  let good: string
+  let bad: string
+
+  beforeEach(async () => {
+    const { createNamespaceWrapper } = await import('../src/namespaceWrapper')
+    const { Keypair } = await import('@_koii/web3.js')
+    records = []
+    wrapper = createNamespaceWrapper({
+      config: { storageBackend: 'memory' },
+      logger: new Logger({
+        sinks: [{ write: (record) => records.push(record) }],
+      }),
+    })
+    await wrapper.defaultTaskSetup()
+    good = new Keypair().publicKey.toBase58()
+    bad = new Keypair().publicKey.toBase58()
+    wrapper.testingTaskState!.submissions[3] = {
+      [good]: { submission_value: 'good', slot: 1, round: 3 },
+      [bad]: { submission_value: 'bad', slot: 1, round: 3 },
+    }
+  })
+
+  const validate = async (submissionValue: string) => submissionValue === 'good'
+
+  it('returns and saves a report per candidate', async () => {
+    const reports = await wrapper.validateAndVoteOnNodes(validate, 3, false)
+    expect(reports).toEqual([
+      expect.objectContaining({
+        candidate: good,
+        status: 'valid',
+        action: 'none',
+      }),
+      expect.objectContaining({
+        candidate: bad,
+        status: 'invalid',
+        action: 'raisedAudit',
+      }),
+    ])
+    expect(await wrapper.getVoteReports(3)).toEqual(reports)
+    expect(await wrapper.getVoteReports(3, 'distribution')).toEqual([])
+  })
+
+  it('logs a failed save and still returns the reports', async () => {
+    vi.spyOn(wrapper, 'storeUpdate').mockRejectedValue(new Error('DB closed'))
+    const reports = await wrapper.validateAndVoteOnNodes(validate, 3, false)
+    expect(reports).toHaveLength(2)
+    expect(records).toContainEqual(
+      expect.objectContaining({
+        level: 'error',
+        msg: 'Error saving vote reports',
+        round: 3,
+      }),
+    )
+  })
+})
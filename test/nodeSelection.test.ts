@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import {
+  isPreviousPayoutFailed,
+  pickFromRanking,
+  rankDistributionNodes,
+  selectDistributionNode,
+} from '../src/nodeSelection'
+import { SubmissionsPerRound, TaskDistributionInfo } from '../src/types'
+
+const submission = (round: number) => ({
+  submission_value: `cid-${round}`,
+  slot: round * 100,
+  round,
+})
+
+const submissions: SubmissionsPerRound = {}
+for (const round of [3, 4, 5]) {
+  submissions[round] = {}
+  for (const node of ['node-a', 'node-b', 'node-c']) {
+    submissions[round][node] = submission(round)
+  }
+}
+
+const distributionData = (
+  record: TaskDistributionInfo['distributions_audit_record'],
+): TaskDistributionInfo => ({
+  distribution_rewards_submission: {},
+  distributions_audit_trigger: {},
+  distributions_audit_record: record,
+})
+
+const stakeList = { 'node-a': 3000, 'node-b': 2000, 'node-c': 1000 }
+
+describe('isPreviousPayoutFailed', () => {
+  it('reads the audit record of the previous round', () => {
+    expect(
+      isPreviousPayoutFailed(5, distributionData({ 4: 'PayoutFailed' })),
+    ).toBe(true)
+    expect(
+      isPreviousPayoutFailed(5, distributionData({ 4: 'PayoutSuccessful' })),
+    ).toBe(false)
+    expect(
+      isPreviousPayoutFailed(5, distributionData({ 5: 'PayoutFailed' })),
+    ).toBe(false)
+    expect(isPreviousPayoutFailed(5, distributionData({}))).toBe(false)
+  })
+
+  it('is null when the record is unknown', () => {
+    expect(isPreviousPayoutFailed(5, null)).toBeNull()
+  })
+})
+
+describe('selectDistributionNode', () => {
+  it('ranks the same way on every call', () => {
+    const ranking = rankDistributionNodes(5, submissions, null, [], {
+      stakeList,
+    })
+    expect([...ranking].sort()).toEqual(['node-a', 'node-b', 'node-c'])
+    expect(
+      rankDistributionNodes(5, submissions, null, [], { stakeList }),
+    ).toEqual(ranking)
+  })
+
+  it('picks the second rank after a failed payout', () => {
+    const ranking = rankDistributionNodes(5, submissions, null, [], {
+      stakeList,
+    })
+    expect(
+      selectDistributionNode(5, submissions, null, false, [], { stakeList }),
+    ).toBe(ranking[0])
+    expect(
+      selectDistributionNode(5, submissions, null, true, [], { stakeList }),
+    ).toBe(ranking[1])
+  })
+
+  it('falls back to the only candidate', () => {
+    expect(pickFromRanking(['node-a'], true)).toBe('node-a')
+    expect(pickFromRanking([], false)).toBe('')
+  })
+
+  it('leaves out excluded nodes and submitters of a failed payout', () => {
+    const data = distributionData({ 5: 'PayoutFailed' })
+    data.distribution_rewards_submission[5] = { 'node-b': submission(5) }
+    expect(
+      rankDistributionNodes(5, submissions, data, ['node-c'], { stakeList }),
+    ).toEqual(['node-a'])
+  })
+})
@@ -0,0 +1,247 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import express, { Express } from 'express'
+import { Server } from 'http'
+import { AddressInfo } from 'net'
+import { LogRecord, Logger } from '../src/logger'
+import {
+  Peer,
+  PeerClient,
+  PeerClientOptions,
+  PeerClientSource,
+} from '../src/peerClient'
+import {
+  PUBLIC_KEY_HEADER,
+  RequestSigner,
+  SIGNATURE_HEADER,
+  hashRequestBody,
+  hashRequestSignature,
+  signResponses,
+} from '../src/requestAuth'
+import { TaskState } from '../src/types'
+
+// The signature is the signed payload itself, verifySignature hands it back
+function signer(publicKey: string): RequestSigner {
+  return {
+    config: { taskId: 'task1' },
+    getSubmitterAccount: async () => ({
+      publicKey: { toBase58: () => publicKey },
+      secretKey: new Uint8Array(),
+    }),
+    payloadSigning: async (body) => JSON.stringify(body),
+  }
+}
+
+const servers: Server[] = []
+
+async function serve(setup: (app: Express) => void): Promise<string> {
+  const app = express()
+  setup(app)
+  const server = await new Promise<Server>((resolve) => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening))
+  })
+  servers.push(server)
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+}
+
+// A peer answering with responses signed by `signingKey`
+function signedPeer(signingKey: string, hits = { count: 0 }) {
+  return serve((app) => {
+    app.use(signResponses(signer(signingKey)))
+    app.get('/ping', (req, res) => {
+      hits.count++
+      res.json({ pong: true })
+    })
+  })
+}
+
+function client(
+  ipAddressList: Record<string, string>,
+  options: PeerClientOptions = {},
+): { peers: PeerClient; records: LogRecord[] } {
+  const source: PeerClientSource = {
+    ...signer('self'),
+    getTaskState: async () =>
+      ({ task_id: '', ip_address_list: ipAddressList }) as TaskState,
+    verifySignature: async (signature) => ({ data: signature }),
+  }
+  const records: LogRecord[] = []
+  const logger = new Logger({
+    sinks: [{ write: (record) => records.push(record) }],
+  })
+  return { peers: new PeerClient(source, { ...options, logger }), records }
+}
+
+afterEach(async () => {
+  await Promise.all(
+    servers.splice(0).map(
+      (server) =>
+        new Promise((resolve) => {
+          server.closeAllConnections()
+          server.close(resolve)
+        }),
+    ),
+  )
+})
+
+describe('PeerClient', () => {
+  it('lists the other nodes of the task', async () => {
+    const { peers } = client({
+      self: 'http://127.0.0.1:1',
+      'node-a': 'http://127.0.0.1:2/',
+      'node-b': '',
+    })
+    expect(await peers.getPeers()).toEqual([
+      { publicKey: 'node-a', url: 'http://127.0.0.1:2' },
+    ])
+  })
+
+  it('checks that responses are signed by the peer for the request', async () => {
+    const tampered = await serve((app) => {
+      app.get('/ping', (req, res) => {
+        const body = { pong: true }
+        const payload = {
+          path: '/other',
+          bodyHash: hashRequestBody(body),
+          timestamp: Date.now(),
+          requestHash: hashRequestSignature(
+            String(req.headers[SIGNATURE_HEADER]),
+          ),
+        }
+        res.set({
+          [PUBLIC_KEY_HEADER]: 'node-a',
+          [SIGNATURE_HEADER]: JSON.stringify(payload),
+        })
+        res.json(body)
+      })
+    })
+    const urls: Record<string, string> = {
+      'node-a': await signedPeer('node-a'),
+      'node-b': await signedPeer('node-c'),
+      'node-d': await serve((app) =>
+        app.get('/ping', (req, res) => res.json(1)),
+      ),
+      'node-x': tampered,
+    }
+    const { peers } = client(urls)
+    const peer = (publicKey: string): Peer => ({
+      publicKey,
+      url: urls[publicKey],
+    })
+
+    const signed = await peers.request(peer('node-a'), { path: '/ping' })
+    expect(signed).toMatchObject({ data: { pong: true }, signed: true })
+    await expect(
+      peers.request(peer('node-b'), { path: '/ping' }),
+    ).rejects.toThrow('Response signed by another key')
+    await expect(
+      peers.request(
+        { ...peer('node-x'), publicKey: 'node-a' },
+        { path: '/ping' },
+      ),
+    ).rejects.toThrow('Invalid response signature')
+    expect(
+      await peers.request(peer('node-d'), { path: '/ping' }),
+    ).toMatchObject({ data: 1, signed: false })
+
+    const strict = client(urls, { requireSignedResponses: true }).peers
+    await expect(
+      strict.request(peer('node-d'), { path: '/ping' }),
+    ).rejects.toThrow('Unsigned response')
+  })
+
+  it('retries 5xx responses but not 4xx ones', async () => {
+    const hits = { '/busy': 0, '/missing': 0 }
+    const url = await serve((app) => {
+      app.get('/busy', (req, res) => {
+        hits['/busy']++
+        res.status(503).json({})
+      })
+      app.get('/missing', (req, res) => {
+        hits['/missing']++
+        res.status(404).json({})
+      })
+    })
+    const { peers } = client({ 'node-a': url }, { retries: 2 })
+    const peer = { publicKey: 'node-a', url }
+
+    await expect(peers.request(peer, { path: '/busy' })).rejects.toMatchObject({
+      status: 503,
+      retryable: true,
+    })
+    expect(hits['/busy']).toBe(3)
+    expect(peers.getStats('node-a').failures).toBe(1)
+
+    await expect(
+      peers.request(peer, { path: '/missing' }),
+    ).rejects.toMatchObject({ status: 404, retryable: false })
+    expect(hits['/missing']).toBe(1)
+    expect(peers.getStats('node-a').failures).toBe(1)
+  })
+
+  it('times out slow peers', async () => {
+    const url = await serve((app) => app.get('/slow', () => {}))
+    const { peers } = client({ 'node-a': url }, { timeout: 50, retries: 0 })
+    await expect(
+      peers.request({ publicKey: 'node-a', url }, { path: '/slow' }),
+    ).rejects.toThrow(`Request to ${url} timed out after 50ms`)
+  })
+
+  it('skips failing peers for the cooldown and ranks the rest', async () => {
+    const down = await serve((app) =>
+      app.get('/ping', (req, res) => res.status(500).json({})),
+    )
+    const { peers, records } = client(
+      { 'node-a': await signedPeer('node-a'), 'node-b': down },
+      { retries: 0, maxFailures: 2, cooldown: 100 },
+    )
+    const all = await peers.requestAll({ path: '/ping' })
+    expect(all.map(({ peer, error }) => [peer.publicKey, !!error])).toEqual([
+      ['node-a', false],
+      ['node-b', true],
+    ])
+    expect((await peers.getPeers()).map((peer) => peer.publicKey)).toEqual([
+      'node-a',
+      'node-b',
+    ])
+
+    await peers.requestAll({ path: '/ping' })
+    expect((await peers.getPeers()).map((peer) => peer.publicKey)).toEqual([
+      'node-a',
+    ])
+    expect((await peers.getPeers(true)).map((peer) => peer.publicKey)).toEqual([
+      'node-a',
+      'node-b',
+    ])
+    expect(records).toContainEqual(
+      expect.objectContaining({
+        level: 'warn',
+        msg: 'Skipping unreachable peer',
+        peer: 'node-b',
+      }),
+    )
+
+    await new Promise((resolve) => setTimeout(resolve, 150))
+    expect(await peers.getPeers()).toHaveLength(2)
+  })
+
+  it('falls through to the next peer', async () => {
+    const down = await serve((app) =>
+      app.get('/ping', (req, res) => res.status(500).json({})),
+    )
+    const { peers } = client(
+      { 'node-a': down, 'node-b': await signedPeer('node-b') },
+      { retries: 0 },
+    )
+    const response = await peers.requestAny({ path: '/ping' })
+    expect(response.peer.publicKey).toBe('node-b')
+  })
+
+  it('rejects a GET with a body before trying any peer', async () => {
+    const hits = { count: 0 }
+    const { peers } = client({ 'node-a': await signedPeer('node-a', hits) })
+    await expect(
+      peers.requestAny({ path: '/ping', body: { round: 3 } }),
+    ).rejects.toThrow('GET requests cannot have a body')
+    expect(hits.count).toBe(0)
+  })
+})
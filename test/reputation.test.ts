@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest'
+import { ReputationTracker, RoundActivity } from '../src/reputation'
+import { KeyValueStore } from '../src/store'
+
+function memoryStore(): KeyValueStore & {
+  failOn: string | null
+  failReads: boolean
+} {
+  const values = new Map<string, unknown>()
+  const store = {
+    failOn: null as string | null,
+    // Like the wrapper's storeGet, which reads a failing store as null
+    failReads: false,
+    async storeGet<T>(key: string) {
+      if (store.failReads) return null
+      return (values.get(key) as T) ?? null
+    },
+    async storeSet<T>(key: string, value: T) {
+      values.set(key, value)
+    },
+    async storeDelete(key: string) {
+      return values.delete(key)
+    },
+    async storeKeys(prefix = '') {
+      return [...values.keys()].filter((key) => key.startsWith(prefix))
+    },
+    async storeUpdate<T>(
+      key: string,
+      updater: (current: T | null) => T | Promise<T>,
+    ) {
+      if (key === store.failOn) throw new Error('DB write failed')
+      const value = await updater((values.get(key) as T) ?? null)
+      values.set(key, value)
+      return value
+    },
+    async storeCompareAndSet<T>(key: string, expected: T | null, value: T) {
+      if (key === store.failOn) throw new Error('DB write failed')
+      const current = values.get(key) ?? null
+      if (JSON.stringify(current) !== JSON.stringify(expected)) return false
+      values.set(key, value)
+      return true
+    },
+  }
+  return store
+}
+
+const activity: RoundActivity = {
+  round: 4,
+  kind: 'submission',
+  submitters: ['node-a', 'node-b'],
+  auditTriggers: {
+    'node-b': {
+      trigger_by: 'node-a',
+      slot: 10,
+      votes: [{ voter: 'node-a', is_valid: false, slot: 11 }],
+    },
+  },
+}
+
+describe('ReputationTracker', () => {
+  it('records a round once, also when called concurrently', async () => {
+    const tracker = new ReputationTracker(memoryStore())
+    expect(
+      await Promise.all([
+        tracker.recordRound(activity),
+        tracker.recordRound(activity),
+      ]),
+    ).toEqual([true, false])
+    expect(await tracker.isRecorded('submission', 4)).toBe(true)
+    const nodeA = await tracker.getPeerReputation('node-a')
+    expect(nodeA.submissions).toBe(1)
+    expect(nodeA.votes).toEqual({ cast: 1, withOutcome: 1, againstOutcome: 0 })
+    const nodeB = await tracker.getPeerReputation('node-b')
+    expect(nodeB.submissionAudits.failed).toBe(1)
+  })
+
+  it('completes a round that failed part-way without counting twice', async () => {
+    const store = memoryStore()
+    const tracker = new ReputationTracker(store)
+    store.failOn = 'peer:node-b'
+    await expect(tracker.recordRound(activity)).rejects.toThrow(
+      'DB write failed',
+    )
+    expect(await tracker.isRecorded('submission', 4)).toBe(false)
+
+    store.failOn = null
+    expect(await tracker.recordRound(activity)).toBe(true)
+    expect((await tracker.getPeerReputation('node-a')).submissions).toBe(1)
+    expect((await tracker.getPeerReputation('node-b')).submissions).toBe(1)
+  })
+
+  it('rejects instead of counting again when the marker cannot be read', async () => {
+    const store = memoryStore()
+    const tracker = new ReputationTracker(store)
+    await tracker.recordRound(activity)
+
+    store.failReads = true
+    await expect(tracker.recordRound(activity)).rejects.toThrow(
+      'Marker recorded:submission:4 changed while recording the round',
+    )
+    store.failReads = false
+    expect((await tracker.getPeerReputation('node-a')).submissions).toBe(1)
+  })
+
+  it('rejects when the progress cannot be written', async () => {
+    const store = memoryStore()
+    const tracker = new ReputationTracker(store)
+    store.failOn = 'recorded:submission:4'
+    await expect(tracker.recordRound(activity)).rejects.toThrow(
+      'DB write failed',
+    )
+    expect(await tracker.getReputations()).toEqual([])
+  })
+})
@@ -0,0 +1,114 @@
+import { describe, expect, it, vi } from 'vitest'
+import { Request, Response } from 'express'
+import {
+  PUBLIC_KEY_HEADER,
+  RequestSigner,
+  createSignedRequestHeaders,
+  requireSignature,
+} from '../src/requestAuth'
+import { TaskNode } from '../src/types'
+import { LogRecord, Logger } from '../src/logger'
+
+// The signature is the signed payload itself, verifySignature hands it back
+function signer(taskId: string): RequestSigner {
+  return {
+    config: { taskId },
+    getSubmitterAccount: async () => ({
+      publicKey: { toBase58: () => 'node-a' },
+      secretKey: new Uint8Array(),
+    }),
+    payloadSigning: async (body) => JSON.stringify(body),
+  }
+}
+
+function taskNode(): TaskNode {
+  const store = new Map<string, unknown>()
+  return {
+    config: { taskId: 'task1' },
+    verifySignature: async (signature: string) => ({ data: signature }),
+    storeCompareAndSet: async (
+      key: string,
+      expected: unknown,
+      value: unknown,
+    ) => {
+      if ((store.get(key) ?? null) !== expected) return false
+      store.set(key, value)
+      return true
+    },
+  } as unknown as TaskNode
+}
+
+async function call(
+  node: TaskNode,
+  headers: Record<string, string>,
+): Promise<number> {
+  const req = {
+    method: 'GET',
+    originalUrl: '/task/proof/3',
+    headers,
+    body: {},
+  } as unknown as Request
+  let status = 200
+  const res = {
+    status(code: number) {
+      status = code
+      return res
+    },
+    json: () => res,
+  } as unknown as Response
+  const next = vi.fn()
+  await requireSignature(node, { allow: 'any' })(req, res, next)
+  if (status === 200) expect(next).toHaveBeenCalled()
+  return status
+}
+
+describe('createSignedRequestHeaders', () => {
+  it('rejects a GET with a body, which would not be sent', async () => {
+    await expect(
+      createSignedRequestHeaders(signer('task1'), {
+        method: 'get',
+        path: '/task/proof/3',
+        body: { round: 3 },
+      }),
+    ).rejects.toThrow('GET requests cannot have a body')
+  })
+})
+
+describe('requireSignature', () => {
+  const request = { method: 'get', path: '/task/proof/3' }
+
+  it('accepts a signed request once', async () => {
+    const node = taskNode()
+    const headers = await createSignedRequestHeaders(signer('task1'), request)
+    expect(headers[PUBLIC_KEY_HEADER]).toBe('node-a')
+    expect(await call(node, headers)).toBe(200)
+    expect(await call(node, headers)).toBe(401)
+    const next = await createSignedRequestHeaders(signer('task1'), request)
+    expect(await call(node, next)).toBe(200)
+  })
+
+  it('rejects requests signed for another task', async () => {
+    const headers = await createSignedRequestHeaders(signer('task2'), request)
+    expect(await call(taskNode(), headers)).toBe(401)
+  })
+
+  it('fails closed when the nonce cannot be recorded', async () => {
+    const records: LogRecord[] = []
+    const node = taskNode()
+    node.log = new Logger({
+      sinks: [{ write: (record) => records.push(record) }],
+    })
+    node.storeCompareAndSet = async () => {
+      throw new Error('DB closed')
+    }
+    const headers = await createSignedRequestHeaders(signer('task1'), request)
+    expect(await call(node, headers)).toBe(503)
+    expect(records).toContainEqual(
+      expect.objectContaining({
+        level: 'error',
+        msg: 'Could not record request nonce',
+        error: expect.any(Error),
+      }),
+    )
+  })
+})
@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { RoundScheduler, getRoundPhase } from '../src/roundScheduler'
+import { LogRecord, Logger } from '../src/logger'
+import { TaskState } from '../src/types'
+
+const timing = {
+  starting_slot: 100,
+  round_time: 100,
+  submission_window: 40,
+  audit_window: 30,
+}
+
+function source(slots: Array<number | Error>) {
+  let last = slots[0]
+  return {
+    getSlot: vi.fn(async () => {
+      last = slots.length > 0 ? slots.shift()! : last
+      if (last instanceof Error) throw last
+      return last
+    }),
+    getAverageSlotTime: async () => 400,
+    getTaskState: async () => timing as TaskState,
+  }
+}
+
+function record(scheduler: RoundScheduler) {
+  const events: string[] = []
+  scheduler.on('submissionOpen', (i) => events.push(`submission ${i.round}`))
+  scheduler.on('auditOpen', (i) => events.push(`audit ${i.round}`))
+  scheduler.on('distributionOpen', (i) =>
+    events.push(`distribution ${i.round}`),
+  )
+  scheduler.on('roundEnd', (e) => events.push(`end ${e.round}@${e.slot}`))
+  return events
+}
+
+describe('getRoundPhase', () => {
+  it('splits a round into its windows', () => {
+    expect(getRoundPhase(150, timing)).toEqual({
+      round: 0,
+      phase: 'audit',
+      slot: 150,
+      slotInRound: 50,
+      phaseEndSlot: 170,
+    })
+    expect(getRoundPhase(275, timing).phase).toBe('distribution')
+    expect(getRoundPhase(300, timing).round).toBe(2)
+  })
+})
+
+describe('RoundScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('emits every phase crossed between two ticks', async () => {
+    const scheduler = new RoundScheduler(source([110, 250]), {
+      maxSyncInterval: 1000,
+    })
+    const events = record(scheduler)
+    await scheduler.start()
+    await vi.advanceTimersByTimeAsync(1000)
+    scheduler.stop()
+    expect(events).toEqual([
+      'submission 0',
+      'audit 0',
+      'distribution 0',
+      'end 0@200',
+      'submission 1',
+      'audit 1',
+    ])
+  })
+
+  it('passes the slot each crossed phase opened at', async () => {
+    const scheduler = new RoundScheduler(source([110, 250]), {
+      maxSyncInterval: 1000,
+    })
+    const opened: number[] = []
+    scheduler.on('distributionOpen', (info) => opened.push(info.slot))
+    scheduler.on('auditOpen', (info) => opened.push(info.slot))
+    await scheduler.start()
+    await vi.advanceTimersByTimeAsync(1000)
+    scheduler.stop()
+    expect(opened).toEqual([140, 170, 250])
+  })
+
+  it('ignores a slot behind the current phase', async () => {
+    const scheduler = new RoundScheduler(source([150, 120, 180]), {
+      maxSyncInterval: 1000,
+    })
+    const events = record(scheduler)
+    await scheduler.start()
+    await vi.advanceTimersByTimeAsync(2000)
+    scheduler.stop()
+    expect(events).toEqual(['audit 0', 'distribution 0'])
+  })
+
+  it('keeps running after an error with no error listener', async () => {
+    const records: LogRecord[] = []
+    const slots = source([new Error('RPC down'), 110])
+    const scheduler = new RoundScheduler(slots, {
+      maxSyncInterval: 1000,
+      logger: new Logger({
+        sinks: [{ write: (record) => records.push(record) }],
+      }),
+    })
+    const events = record(scheduler)
+    await scheduler.start()
+    expect(records).toContainEqual(
+      expect.objectContaining({
+        level: 'error',
+        msg: 'Round scheduler error',
+        error: expect.any(Error),
+      }),
+    )
+    await vi.advanceTimersByTimeAsync(1000)
+    scheduler.stop()
+    expect(slots.getSlot).toHaveBeenCalledTimes(2)
+    expect(events).toEqual(['submission 0'])
+  })
+
+  it('reports listener errors and emits the remaining phases', async () => {
+    const errors: unknown[] = []
+    const scheduler = new RoundScheduler(source([110, 250]), {
+      maxSyncInterval: 1000,
+    })
+    scheduler.on('error', (error) => errors.push(error))
+    scheduler.once('distributionOpen', () => {
+      throw new Error('listener failed')
+    })
+    const events = record(scheduler)
+    await scheduler.start()
+    await vi.advanceTimersByTimeAsync(1000)
+    scheduler.stop()
+    expect(errors).toEqual([new Error('listener failed')])
+    expect(events).toEqual([
+      'submission 0',
+      'audit 0',
+      'end 0@200',
+      'submission 1',
+      'audit 1',
+    ])
+  })
+})
@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { Logger } from '../src/logger'
+import type {
+  NodeBehavior,
+  RoundSimulator,
+  SimulatedTask,
+} from '../src/roundSimulator'
+import { hasWeb3 } from './web3'
+
+const REWARD = 100
+
+// Submits the round's value, pays every submitter the same reward
+const task: SimulatedTask = {
+  task: async (round) => `value-${round}`,
+  validateSubmission: async (value, round) => value === `value-${round}`,
+  generateDistributionList: async (round, context) => {
+    const list: Record<string, number> = {}
+    for (const publicKey of Object.keys(
+      context.taskState.submissions[round] || {},
+    )) {
+      list[publicKey] = REWARD
+    }
+    return list
+  },
+  validateDistribution: async (submitter, round, nodePublicKey, context) => {
+    const list = context.getDistributionList(submitter, round)
+    return !!list && Object.values(list).every((amount) => amount === REWARD)
+  },
+}
+
+describe.skipIf(!hasWeb3)('RoundSimulator', () => {
+  let simulator: RoundSimulator
+
+  async function simulate(
+    nodes: number,
+    behaviors: Record<number, NodeBehavior> = {},
+  ): Promise<RoundSimulator> {
+    const { RoundSimulator } = await import('../src/roundSimulator')
+    simulator = new RoundSimulator({
+      nodes,
+      task,
+      behaviors,
+      slashPercentage: 0.5,
+      stakePerNode: 1000,
+      logger: new Logger({ sinks: [] }),
+    })
+    return simulator
+  }
+
+  afterEach(async () => {
+    await simulator.close()
+  })
+
+  it('runs an honest round through to payout', async () => {
+    const sim = await simulate(3)
+    const [result] = await sim.runRounds(1)
+    const publicKeys = sim.nodes.map((node) => node.publicKey)
+
+    expect(Object.keys(sim.taskState.submissions[0]).sort()).toEqual(
+      [...publicKeys].sort(),
+    )
+    expect(result.failedAudits).toEqual([])
+    expect(result.slashed).toEqual({})
+    expect(publicKeys).toContain(result.selectedNode)
+    expect(result.distributionList).toEqual(
+      Object.fromEntries(publicKeys.map((key) => [key, REWARD])),
+    )
+    expect(result.distributionValid).toBe(true)
+    expect(result.payout).toBe('PayoutSuccessful')
+  }, 30000)
+
+  it('fails the audit of a bad submission and slashes its node', async () => {
+    const { Misbehaviors } = await import('../src/roundSimulator')
+    const sim = await simulate(3, {
+      1: Misbehaviors.badSubmission,
+      2: Misbehaviors.missingSubmission,
+    })
+    const [result] = await sim.runRounds(1)
+    const [honest, bad, missing] = sim.nodes.map((node) => node.publicKey)
+
+    expect(result.submissions[missing]).toBeNull()
+    expect(Object.keys(sim.taskState.submissions[0]).sort()).toEqual(
+      [honest, bad].sort(),
+    )
+    expect(result.failedAudits).toEqual([bad])
+    expect(result.slashed).toEqual({ [bad]: 500 })
+    expect(sim.taskState.stake_list[bad]).toBe(500)
+    expect(sim.taskState.stake_list[honest]).toBe(1000)
+  }, 30000)
+
+  it('outvotes a false voter', async () => {
+    const { Misbehaviors } = await import('../src/roundSimulator')
+    const sim = await simulate(3, { 2: Misbehaviors.falseVoter })
+    const [result] = await sim.runRounds(1)
+
+    expect(result.failedAudits).toEqual([])
+    expect(result.distributionValid).toBe(true)
+    expect(result.payout).toBe('PayoutSuccessful')
+  }, 30000)
+
+  it('fails the payout of a wrong distribution list', async () => {
+    const { Misbehaviors } = await import('../src/roundSimulator')
+    const sim = await simulate(3, {
+      0: Misbehaviors.wrongDistribution,
+      1: Misbehaviors.wrongDistribution,
+      2: Misbehaviors.wrongDistribution,
+    })
+    const [result] = await sim.runRounds(1)
+
+    expect(result.distributionList).not.toBeNull()
+    expect(result.distributionValid).toBe(false)
+    expect(result.payout).toBe('PayoutFailed')
+    expect(sim.taskState.distributions_audit_record[0]).toBe('PayoutFailed')
+  }, 30000)
+})
@@ -0,0 +1,218 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { Logger } from '../src/logger'
+import type { NamespaceWrapper } from '../src/namespaceWrapper'
+import {
+  SIGNED_MESSAGE_VERSION,
+  checkMessagePayload,
+  createMessagePayload,
+  messageNonceKey,
+  parseMessagePayload,
+} from '../src/signedMessage'
+import { hasWeb3 } from './web3'
+
+const NOW = 1_700_000_000_000
+
+const expected = { taskId: 'task1', clockSkew: 5000, maxTtl: 600000 }
+
+function payload(
+  context: Partial<{ taskId: string; round: number; audience: string }> = {},
+  ttl = 60000,
+) {
+  return createMessagePayload(
+    { vote: true },
+    { taskId: 'task1', round: 3, ttl, ...context },
+    NOW,
+  )
+}
+
+describe('createMessagePayload', () => {
+  it('binds the data to the task, round, time and audience', () => {
+    expect(payload({ audience: 'node-b' })).toEqual({
+      version: SIGNED_MESSAGE_VERSION,
+      taskId: 'task1',
+      round: 3,
+      iat: NOW,
+      exp: NOW + 60000,
+      nonce: expect.stringMatching(/^[0-9a-f]{32}$/),
+      aud: 'node-b',
+      data: { vote: true },
+    })
+    expect(payload()).not.toHaveProperty('aud')
+    expect(payload().nonce).not.toBe(payload().nonce)
+  })
+})
+
+describe('parseMessagePayload', () => {
+  it('parses a signed payload and rejects anything else', () => {
+    const message = payload()
+    expect(parseMessagePayload(JSON.stringify(message))).toEqual(message)
+    expect(parseMessagePayload('not json')).toBeNull()
+    expect(parseMessagePayload(JSON.stringify({ vote: true }))).toBeNull()
+    expect(
+      parseMessagePayload(JSON.stringify({ ...message, nonce: '' })),
+    ).toBeNull()
+    const withoutData: Partial<typeof message> = { ...message }
+    delete withoutData.data
+    expect(parseMessagePayload(JSON.stringify(withoutData))).toBeNull()
+  })
+})
+
+describe('checkMessagePayload', () => {
+  it('accepts a payload for this task within its validity window', () => {
+    expect(checkMessagePayload(payload(), expected, NOW)).toBeNull()
+    expect(
+      checkMessagePayload(payload(), { ...expected, round: 3 }, NOW + 60000),
+    ).toBeNull()
+  })
+
+  it('rejects a payload signed for another task', () => {
+    expect(
+      checkMessagePayload(payload({ taskId: 'task2' }), expected, NOW),
+    ).toBe('Message was signed for task task2')
+  })
+
+  it('rejects a payload signed for another round', () => {
+    expect(checkMessagePayload(payload(), { ...expected, round: 4 }, NOW)).toBe(
+      'Message was signed for round 3',
+    )
+  })
+
+  it('rejects a payload addressed to another node', () => {
+    const addressed = payload({ audience: 'node-b' })
+    expect(
+      checkMessagePayload(addressed, { ...expected, audience: 'node-b' }, NOW),
+    ).toBeNull()
+    expect(
+      checkMessagePayload(addressed, { ...expected, audience: 'node-c' }, NOW),
+    ).toBe('Message was signed for node-b')
+    expect(checkMessagePayload(addressed, expected, NOW)).toBe(
+      'Message was signed for node-b',
+    )
+    expect(
+      checkMessagePayload(payload(), { ...expected, audience: 'node-c' }, NOW),
+    ).toBeNull()
+  })
+
+  it('rejects expired payloads after the clock skew', () => {
+    const expiry = NOW + 60000
+    expect(checkMessagePayload(payload(), expected, expiry + 5000)).toBeNull()
+    expect(checkMessagePayload(payload(), expected, expiry + 5001)).toBe(
+      'Message expired',
+    )
+  })
+
+  it('rejects payloads from the future and oversized windows', () => {
+    expect(checkMessagePayload(payload(), expected, NOW - 5001)).toBe(
+      'Message was issued in the future',
+    )
+    expect(checkMessagePayload(payload({}, 600001), expected, NOW)).toBe(
+      'Invalid message validity window',
+    )
+    expect(checkMessagePayload(payload({}, 0), expected, NOW)).toBe(
+      'Invalid message validity window',
+    )
+    expect(
+      checkMessagePayload({ ...payload(), version: 2 }, expected, NOW),
+    ).toBe('Unsupported message version 2')
+  })
+})
+
+describe('messageNonceKey', () => {
+  it('scopes nonces to their signer', () => {
+    expect(messageNonceKey('node-a', 'n1')).not.toBe(
+      messageNonceKey('node-b', 'n1'),
+    )
+  })
+})
+
+describe.skipIf(!hasWeb3)('NamespaceWrapper signed messages', () => {
+  let wrapper: NamespaceWrapper
+  let signer: string
+
+  beforeEach(async () => {
+    const { createNamespaceWrapper } = await import('../src/namespaceWrapper')
+    wrapper = createNamespaceWrapper({
+      config: { storageBackend: 'memory' },
+      logger: new Logger({ sinks: [] }),
+    })
+    await wrapper.defaultTaskSetup()
+    signer = wrapper.testingMainSystemAccount!.publicKey.toBase58()
+  })
+
+  it('accepts a message once', async () => {
+    const message = await wrapper.signMessage({ vote: true }, { round: 3 })
+    const first = await wrapper.verifySignedMessage(message, signer, {
+      round: 3,
+    })
+    expect(first).toMatchObject({ valid: true, data: { vote: true } })
+    expect(await wrapper.verifySignedMessage(message, signer)).toEqual({
+      valid: false,
+      error: 'Message was already used',
+    })
+  })
+
+  it('leaves the nonce unused when asked to', async () => {
+    const message = await wrapper.signMessage({ vote: true }, { round: 3 })
+    const peek = { consumeNonce: false }
+    expect(
+      (await wrapper.verifySignedMessage(message, signer, peek)).valid,
+    ).toBe(true)
+    expect((await wrapper.verifySignedMessage(message, signer)).valid).toBe(
+      true,
+    )
+  })
+
+  it('rejects messages for another round, node or task', async () => {
+    const message = await wrapper.signMessage(
+      { vote: true },
+      { round: 3, audience: 'node-b' },
+    )
+    expect(
+      await wrapper.verifySignedMessage(message, signer, {
+        round: 4,
+        audience: 'node-b',
+      }),
+    ).toEqual({ valid: false, error: 'Message was signed for round 3' })
+    expect(
+      await wrapper.verifySignedMessage(message, signer, {
+        audience: 'node-c',
+      }),
+    ).toEqual({ valid: false, error: 'Message was signed for node-b' })
+
+    const otherTask = createMessagePayload(
+      { vote: true },
+      { taskId: 'task2', round: 3, ttl: 60000 },
+    )
+    const signed = await wrapper.payloadSigning(
+      { ...otherTask },
+      wrapper.testingMainSystemAccount!.secretKey,
+    )
+    expect(await wrapper.verifySignedMessage(signed!, signer)).toEqual({
+      valid: false,
+      error: 'Message was signed for task task2',
+    })
+  })
+
+  it('rejects expired messages and other signers', async () => {
+    const { Keypair } = await import('@_koii/web3.js')
+    const expired = createMessagePayload(
+      { vote: true },
+      { taskId: '', round: 3, ttl: 1000 },
+      Date.now() - 10000,
+    )
+    const signed = await wrapper.payloadSigning(
+      { ...expired },
+      wrapper.testingMainSystemAccount!.secretKey,
+    )
+    expect(await wrapper.verifySignedMessage(signed!, signer)).toEqual({
+      valid: false,
+      error: 'Message expired',
+    })
+
+    const message = await wrapper.signMessage({ vote: true }, { round: 3 })
+    const other = new Keypair().publicKey.toBase58()
+    expect((await wrapper.verifySignedMessage(message, other)).valid).toBe(
+      false,
+    )
+  })
+})
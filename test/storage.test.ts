@@ -0,0 +1,202 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import Database from 'better-sqlite3'
+import { existsSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { LogRecord, Logger } from '../src/logger'
+import { SqliteStorage, openStorage } from '../src/storage'
+
+let dir: string
+let records: LogRecord[]
+let log: Logger
+const opened: SqliteStorage[] = []
+
+function sqlite(name = 'task.db.sqlite'): SqliteStorage {
+  const storage = new SqliteStorage(join(dir, name))
+  opened.push(storage)
+  return storage
+}
+
+// NeDB keeps one JSON document per line
+function writeNeDBFile(path: string, docs: Record<string, unknown>[]): void {
+  writeFileSync(path, docs.map((doc) => `${JSON.stringify(doc)}\n`).join(''))
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'storage-test-'))
+  records = []
+  log = new Logger({ sinks: [{ write: (record) => records.push(record) }] })
+})
+
+afterEach(() => {
+  for (const storage of opened.splice(0)) storage.close()
+  rmSync(dir, { recursive: true, force: true })
+  vi.restoreAllMocks()
+})
+
+describe('SqliteStorage', () => {
+  it('inserts, finds, counts and removes documents', async () => {
+    const storage = sqlite()
+    const saved = await storage.insert({ key: 'a', value: 1 })
+    expect(saved._id).toEqual(expect.any(String))
+    await storage.insert({ _id: 'fixed', key: 'b', value: 2, tags: ['x'] })
+
+    expect(await storage.findOne({ key: 'a' })).toEqual(saved)
+    expect(await storage.find({ value: { $gte: 2 } })).toHaveLength(1)
+    expect(await storage.find({ tags: 'x' })).toHaveLength(1)
+    expect(await storage.count({ $or: [{ key: 'a' }, { _id: 'fixed' }] })).toBe(
+      2,
+    )
+
+    expect(await storage.remove({ value: { $gt: 0 } })).toBe(1)
+    expect(await storage.remove({ value: { $gt: 0 } }, { multi: true })).toBe(1)
+    expect(await storage.count({})).toBe(0)
+  })
+
+  it('updates with modifiers, replacements and upserts', async () => {
+    const storage = sqlite()
+    await storage.insert({ _id: 'd1', key: 'counter', value: 1, old: true })
+
+    await storage.update({ key: 'counter' }, { $inc: { value: 2 } })
+    await storage.update({ key: 'counter' }, { $unset: { old: true } })
+    await storage.update({ key: 'counter' }, { $push: { seen: 'node-a' } })
+    expect(await storage.findOne({ key: 'counter' })).toEqual({
+      _id: 'd1',
+      key: 'counter',
+      value: 3,
+      seen: ['node-a'],
+    })
+
+    await storage.update({ key: 'counter' }, { key: 'counter', value: 9 })
+    expect(await storage.findOne({ _id: 'd1' })).toEqual({
+      _id: 'd1',
+      key: 'counter',
+      value: 9,
+    })
+
+    expect(await storage.update({ key: 'none' }, { $set: { value: 1 } })).toBe(
+      0,
+    )
+    await storage.update(
+      { key: 'new' },
+      { $set: { value: 1 } },
+      { upsert: true },
+    )
+    expect(await storage.findOne({ key: 'new' })).toMatchObject({
+      key: 'new',
+      value: 1,
+    })
+  })
+
+  it('answers key prefix regexes like the in-memory match', async () => {
+    const storage = sqlite()
+    for (const key of ['peer:a', 'peer:b', 'Peer:c', 'peers', 'nonce:a']) {
+      await storage.insert({ key })
+    }
+    const keys = async (query: Record<string, unknown>) =>
+      (await storage.find(query)).map((doc) => doc.key).sort()
+
+    expect(await keys({ key: /^peer:/ })).toEqual(['peer:a', 'peer:b'])
+    expect(await keys({ key: { $regex: '^peer' } })).toEqual([
+      'peer:a',
+      'peer:b',
+      'peers',
+    ])
+    expect(await keys({ key: /^peer:?s?$/ })).toEqual(['peers'])
+    expect(await keys({ key: /^peer/i })).toEqual([
+      'Peer:c',
+      'peer:a',
+      'peer:b',
+      'peers',
+    ])
+  })
+
+  it('finds expired documents by their expiresAt', async () => {
+    const storage = sqlite()
+    await storage.insert({ key: 'old', expiresAt: 100 })
+    await storage.insert({ key: 'new', expiresAt: 300 })
+    await storage.insert({ key: 'forever' })
+
+    expect(
+      await storage.remove({ expiresAt: { $lte: 200 } }, { multi: true }),
+    ).toBe(1)
+    expect((await storage.find({})).map((doc) => doc.key).sort()).toEqual([
+      'forever',
+      'new',
+    ])
+  })
+
+  it('adds the expiresAt column to databases created without it', async () => {
+    const file = join(dir, 'task.db.sqlite')
+    const db = new Database(file)
+    db.exec(
+      'CREATE TABLE documents (_id TEXT PRIMARY KEY, key TEXT, doc TEXT NOT NULL)',
+    )
+    db.prepare('INSERT INTO documents VALUES (?, ?, ?)').run(
+      'd1',
+      'old',
+      JSON.stringify({ _id: 'd1', key: 'old', expiresAt: 100 }),
+    )
+    db.close()
+
+    const storage = sqlite()
+    expect(await storage.find({ expiresAt: { $lt: 200 } })).toEqual([
+      { _id: 'd1', key: 'old', expiresAt: 100 },
+    ])
+  })
+})
+
+describe('openStorage', () => {
+  const docs = [
+    { _id: 'd1', key: 'round', value: 4 },
+    { _id: 'd2', key: 'peer:a', value: { submissions: 2 } },
+  ]
+
+  it('copies an existing NeDB file into a new SQLite database', async () => {
+    const path = join(dir, 'task.db')
+    writeNeDBFile(path, docs)
+
+    const storage = await openStorage('sqlite', path, log)
+    opened.push(storage as SqliteStorage)
+    expect(await storage.find({})).toEqual(expect.arrayContaining(docs))
+    expect(readdirSync(dir).sort()).toEqual(['task.db', 'task.db.sqlite'])
+    expect(records).toEqual([
+      expect.objectContaining({
+        level: 'info',
+        msg: `Migrated 2 documents from ${path} to ${path}.sqlite`,
+      }),
+    ])
+
+    // Only a new database is filled from the NeDB file
+    writeNeDBFile(path, [...docs, { _id: 'd3', key: 'late' }])
+    opened.pop()?.close()
+    const reopened = await openStorage('sqlite', path, log)
+    opened.push(reopened as SqliteStorage)
+    expect(await reopened.count({})).toBe(2)
+  })
+
+  it('leaves no database behind when the copy fails, and retries it', async () => {
+    const path = join(dir, 'task.db')
+    writeNeDBFile(path, docs)
+    const update = SqliteStorage.prototype.update
+    const failing = vi
+      .spyOn(SqliteStorage.prototype, 'update')
+      .mockImplementationOnce(update)
+      .mockRejectedValueOnce(new Error('disk full'))
+
+    await expect(openStorage('sqlite', path, log)).rejects.toThrow('disk full')
+    expect(existsSync(`${path}.sqlite`)).toBe(false)
+
+    failing.mockRestore()
+    const storage = await openStorage('sqlite', path, log)
+    opened.push(storage as SqliteStorage)
+    expect(await storage.count({})).toBe(2)
+    expect(readdirSync(dir).sort()).toEqual(['task.db', 'task.db.sqlite'])
+  })
+
+  it('starts empty without a NeDB file', async () => {
+    const storage = await openStorage('sqlite', join(dir, 'task.db'), log)
+    opened.push(storage as SqliteStorage)
+    expect(await storage.count({})).toBe(0)
+  })
+})
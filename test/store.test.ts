@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import { KeyLock, StoreNamespace, escapeRegExp } from '../src/store'
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 1))
+
+describe('KeyLock', () => {
+  it('runs work on one key one at a time, in call order', async () => {
+    const lock = new KeyLock()
+    const events: string[] = []
+    const work = (name: string) => async () => {
+      events.push(`start ${name}`)
+      await tick()
+      events.push(`end ${name}`)
+      return name
+    }
+    expect(
+      await Promise.all([
+        lock.run('key', work('a')),
+        lock.run('key', work('b')),
+        lock.run('key', work('c')),
+      ]),
+    ).toEqual(['a', 'b', 'c'])
+    expect(events).toEqual([
+      'start a',
+      'end a',
+      'start b',
+      'end b',
+      'start c',
+      'end c',
+    ])
+  })
+
+  it('runs work on different keys side by side', async () => {
+    const lock = new KeyLock()
+    const events: string[] = []
+    await Promise.all(
+      ['a', 'b'].map((key) =>
+        lock.run(key, async () => {
+          events.push(`start ${key}`)
+          await tick()
+          events.push(`end ${key}`)
+        }),
+      ),
+    )
+    expect(events).toEqual(['start a', 'start b', 'end a', 'end b'])
+  })
+
+  it('goes on after work that failed', async () => {
+    const lock = new KeyLock()
+    const failed = lock.run('key', async () => {
+      throw new Error('failed')
+    })
+    const next = lock.run('key', async () => 'next')
+    await expect(failed).rejects.toThrow('failed')
+    expect(await next).toBe('next')
+  })
+})
+
+describe('StoreNamespace', () => {
+  it('prefixes keys and strips the prefix from listed keys', async () => {
+    const values = new Map<string, unknown>()
+    const store = new StoreNamespace(
+      {
+        async storeGet<T>(key: string) {
+          return (values.get(key) as T) ?? null
+        },
+        storeSet: async (key, value) => {
+          values.set(key, value)
+        },
+        storeDelete: async (key) => values.delete(key),
+        storeKeys: async (prefix = '') =>
+          [...values.keys()].filter((key) => key.startsWith(prefix)),
+        storeUpdate: async () => {
+          throw new Error('unused')
+        },
+        storeCompareAndSet: async () => false,
+      },
+      'round:3',
+    )
+    await store.storeNamespace('votes').storeSet('node-a', 'true')
+    expect([...values.keys()]).toEqual(['round:3:votes:node-a'])
+    expect(await store.storeKeys('votes:')).toEqual(['votes:node-a'])
+  })
+})
+
+describe('escapeRegExp', () => {
+  it('matches the text literally', () => {
+    const text = 'round:(3).*[a]'
+    expect(new RegExp(`^${escapeRegExp(text)}$`).test(text)).toBe(true)
+    expect(new RegExp(escapeRegExp('a.b')).test('axb')).toBe(false)
+  })
+})
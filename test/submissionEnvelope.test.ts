@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import {
+  SUBMISSION_ENVELOPE_VERSION,
+  checkSubmissionPayload,
+  hashSubmission,
+  parseSubmissionEnvelope,
+} from '../src/submissionEnvelope'
+
+const submission = '{"proofs":["a","b"]}'
+const hash = hashSubmission(submission)
+const expected = { taskId: 'task-1', round: 7 }
+
+const envelope = {
+  version: SUBMISSION_ENVELOPE_VERSION,
+  taskId: 'task-1',
+  round: 7,
+  submission,
+  signedMessage: 'signature',
+}
+const signed = (payload: object) =>
+  JSON.stringify({ version: 1, taskId: 'task-1', round: 7, hash, ...payload })
+
+const legacyEnvelope = { submission, signedMessage: 'signature' }
+
+describe('checkSubmissionPayload', () => {
+  it('accepts a payload bound to the task and round', () => {
+    expect(checkSubmissionPayload(signed({}), envelope, expected)).toBeNull()
+  })
+
+  it('rejects a payload for another task, round or submission', () => {
+    expect(
+      checkSubmissionPayload(signed({ round: 6 }), envelope, expected),
+    ).toBe('Submission was signed for round 6')
+    expect(
+      checkSubmissionPayload(signed({ taskId: 'task-2' }), envelope, expected),
+    ).toBe('Submission was signed for task task-2')
+    expect(
+      checkSubmissionPayload(signed({ hash: 'other' }), envelope, expected),
+    ).toBe('Invalid hash')
+    expect(checkSubmissionPayload('not json', envelope, expected)).toBe(
+      'Signed payload is not JSON',
+    )
+  })
+
+  it('rejects legacy envelopes by default', () => {
+    expect(
+      checkSubmissionPayload(JSON.stringify(hash), legacyEnvelope, expected),
+    ).toBe('Unversioned envelopes are not accepted')
+  })
+
+  it('accepts legacy envelopes when asked to', () => {
+    const options = { acceptLegacy: true }
+    expect(
+      checkSubmissionPayload(
+        JSON.stringify(hash),
+        legacyEnvelope,
+        expected,
+        options,
+      ),
+    ).toBeNull()
+    expect(
+      checkSubmissionPayload('"other"', legacyEnvelope, expected, options),
+    ).toBe('Invalid hash')
+  })
+})
+
+describe('parseSubmissionEnvelope', () => {
+  it('parses strings and objects', () => {
+    expect(parseSubmissionEnvelope(JSON.stringify(envelope))).toEqual(envelope)
+    expect(parseSubmissionEnvelope(legacyEnvelope)).toEqual(legacyEnvelope)
+  })
+
+  it('returns null for anything else', () => {
+    expect(parseSubmissionEnvelope('{')).toBeNull()
+    expect(parseSubmissionEnvelope({ submission })).toBeNull()
+  })
+})
@@ -0,0 +1,190 @@
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { describe, expect, it } from 'vitest'
+import { decodeTaskAccount, TaskAccountDecodeError } from '../src/taskAccount'
+import { TaskStateOptions } from '../src/types'
+
+const koiiAccount = readFileSync(
+  join(__dirname, 'fixtures/koii-task-account.json'),
+)
+// Borsh encoded KPL task state, see the TaskState layout in the KPL program
+const kplAccount = readFileSync(
+  join(__dirname, 'fixtures/kpl-task-account.bin'),
+)
+
+const NODE_A = 'gBxS1f6uyyGPuW5MzGBukidSb71jdsCb5fZaoSzULE5'
+const NODE_B = 'p2Yicb86aZig616Eav2VWG9vuXR5mEqhtzshZYBxzsV'
+
+const ALL_MAPS: TaskStateOptions = {
+  is_submission_required: true,
+  is_distribution_required: true,
+  is_available_balances_required: true,
+  is_stake_list_required: true,
+}
+
+describe('decodeTaskAccount', () => {
+  describe('KOII', () => {
+    it('decodes the task state', async () => {
+      const state = await decodeTaskAccount(koiiAccount, 'KOII', ALL_MAPS)
+      expect(state.task_id).toBe('4QpFz8SeL3kBrqVkTj6JUtAEM2dSmGqDPXXWhLUBJWnu')
+      expect(state.task_name).toBe('KOII fixture task')
+      expect(state.current_round).toBe(12)
+      expect(state.round_time).toBe(600)
+      expect(state.stake_list).toEqual({ [NODE_A]: 2000, [NODE_B]: 1000 })
+      expect(state.submissions[11][NODE_A].submission_value).toBe(
+        'bafy-submission-a',
+      )
+      expect(state.distributions_audit_record).toEqual({
+        10: 'PayoutSuccessful',
+      })
+    })
+
+    it('accepts a Uint8Array', async () => {
+      const state = await decodeTaskAccount(new Uint8Array(koiiAccount), 'KOII')
+      expect(state.task_name).toBe('KOII fixture task')
+    })
+  })
+
+  describe('KPL', () => {
+    it('decodes the task state into plain records', async () => {
+      const state = await decodeTaskAccount(kplAccount, 'KPL', ALL_MAPS)
+      expect(state.task_name).toBe('KPL fixture task')
+      expect(state.is_active).toBe(true)
+      expect(state.round_time).toBe(600)
+      expect(state.starting_slot).toBe(1000)
+      expect(state.task_manager).toEqual(new Array(32).fill(1))
+      expect(state.stake_list).toEqual({ [NODE_A]: 2000, [NODE_B]: 1000 })
+      expect(state.available_balances).toEqual({ [NODE_A]: 7000 })
+      expect(state.submissions).toEqual({
+        4: {
+          [NODE_A]: {
+            submission_value: 'bafy-submission-a',
+            slot: 1204,
+            round: 4,
+          },
+          [NODE_B]: {
+            submission_value: 'bafy-submission-b',
+            slot: 1206,
+            round: 4,
+          },
+        },
+      })
+      expect(state.submissions_audit_trigger[4][NODE_B].votes).toEqual([
+        { is_valid: false, voter: new Array(32).fill(10), slot: 1231 },
+      ])
+      expect(state.distributions_audit_record).toEqual({
+        2: 'PayoutSuccessful',
+        3: 'PayoutFailed',
+      })
+      expect(Object.getPrototypeOf(state.submissions[4])).toBe(Object.prototype)
+    })
+  })
+
+  describe('options', () => {
+    it.each(['KOII', 'KPL'] as const)(
+      'leaves %s map fields empty unless asked for',
+      async (type) => {
+        const data = type === 'KOII' ? koiiAccount : kplAccount
+        const state = await decodeTaskAccount(data, type)
+        expect(state.stake_list).toEqual({})
+        expect(state.available_balances).toEqual({})
+        expect(state.submissions).toEqual({})
+        expect(state.submissions_audit_trigger).toEqual({})
+        expect(state.distribution_rewards_submission).toEqual({})
+        expect(state.distributions_audit_trigger).toEqual({})
+        expect(state.distributions_audit_record).toEqual({})
+        expect(state.ip_address_list[NODE_A]).toBe('http://10.0.0.1:30017')
+      },
+    )
+
+    it('keeps only the requested maps', async () => {
+      const state = await decodeTaskAccount(kplAccount, 'KPL', {
+        is_stake_list_required: true,
+        is_distribution_required: true,
+      })
+      expect(Object.keys(state.stake_list)).toHaveLength(2)
+      expect(Object.keys(state.distributions_audit_record)).toHaveLength(2)
+      expect(state.submissions).toEqual({})
+      expect(state.available_balances).toEqual({})
+    })
+  })
+
+  describe('malformed data', () => {
+    const decodeError = async (
+      data: Buffer | Uint8Array,
+      type: 'KOII' | 'KPL',
+      options: TaskStateOptions = {},
+    ) => {
+      const error = await decodeTaskAccount(data, type, options).catch((e) => e)
+      expect(error).toBeInstanceOf(TaskAccountDecodeError)
+      expect(error.type).toBe(type)
+      return error as TaskAccountDecodeError
+    }
+
+    it('rejects empty data', async () => {
+      expect((await decodeError(Buffer.alloc(0), 'KOII')).message).toMatch(
+        /Empty KOII/,
+      )
+      expect((await decodeError(new Uint8Array(), 'KPL')).message).toMatch(
+        /Empty KPL/,
+      )
+    })
+
+    it('rejects an unknown task type', async () => {
+      await expect(
+        decodeTaskAccount(koiiAccount, 'SOL' as 'KOII'),
+      ).rejects.toThrow('Unknown task type SOL')
+    })
+
+    it('rejects data that is not JSON', async () => {
+      const error = await decodeError(Buffer.from('{"task_name":'), 'KOII')
+      expect(error.message).toMatch(/^Malformed KOII task account data/)
+      expect(error.cause).toBeInstanceOf(SyntaxError)
+    })
+
+    it('rejects JSON that is not an object', async () => {
+      const error = await decodeError(Buffer.from('[1, 2]'), 'KOII')
+      expect(error.message).toBe('KOII task account data is not an object')
+    })
+
+    it('names the missing fields', async () => {
+      const account = JSON.parse(koiiAccount.toString())
+      delete account.round_time
+      account.task_manager = null
+      const error = await decodeError(
+        Buffer.from(JSON.stringify(account)),
+        'KOII',
+      )
+      expect(error.message).toBe(
+        'KOII task account data is missing task_manager, round_time',
+      )
+    })
+
+    it('rejects a requested map that is not a map', async () => {
+      const account = JSON.parse(koiiAccount.toString())
+      account.stake_list = [2000, 1000]
+      const data = Buffer.from(JSON.stringify(account))
+      const error = await decodeError(data, 'KOII', {
+        is_stake_list_required: true,
+      })
+      expect(error.message).toBe(
+        'KOII task account field stake_list is not a map',
+      )
+      // Not looked at when not requested
+      const state = await decodeTaskAccount(data, 'KOII')
+      expect(state.stake_list).toEqual({})
+    })
+
+    it('rejects truncated KPL data', async () => {
+      const error = await decodeError(kplAccount.subarray(0, 100), 'KPL')
+      expect(error.message).toMatch(/^Malformed KPL task account data/)
+    })
+
+    it('rejects KPL data with a bad string length', async () => {
+      const data = Buffer.from(kplAccount)
+      // Length of task_name, right after the two flags
+      data.writeUInt32LE(0xffffffff, 2)
+      await decodeError(data, 'KPL')
+    })
+  })
+})
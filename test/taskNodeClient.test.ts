@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import axios from 'axios'
+import { Logger } from '../src/logger'
+import { MetricsRegistry } from '../src/metrics'
+import { TaskNodeClient, TaskNodeError } from '../src/taskNodeClient'
+
+function client(metrics = new MetricsRegistry()): TaskNodeClient {
+  return new TaskNodeClient({
+    baseUrl: 'http://task-node/namespace-wrapper',
+    taskId: 'task1',
+    secret: 'secret',
+    metrics,
+    logger: new Logger({ sinks: [] }),
+  })
+}
+
+// The task node answers with `{ response }`
+function respond(response: unknown, status = 200) {
+  return vi
+    .spyOn(axios, 'post')
+    .mockResolvedValue({ status, data: { response } })
+}
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('TaskNodeClient', () => {
+  it('posts the action with the task id and secret', async () => {
+    const post = respond(4)
+    expect(await client().getTaskSubmissionInfo(3)).toEqual({
+      ok: false,
+      error: expect.any(TaskNodeError),
+    })
+    expect(post).toHaveBeenCalledWith('http://task-node/namespace-wrapper', {
+      args: ['getTaskSubmissionInfo', 3],
+      taskId: 'task1',
+      secret: 'secret',
+    })
+  })
+
+  it('resolves responses of the expected kind', async () => {
+    respond(7)
+    expect(await client().getRound()).toEqual({ ok: true, data: 7 })
+    respond('1.11.19')
+    expect(await client().getTaskNodeVersion()).toEqual({
+      ok: true,
+      data: '1.11.19',
+    })
+  })
+
+  it('reports error codes, error objects and wrong kinds', async () => {
+    respond(404)
+    const code = await client().getTaskNodeVersion()
+    expect(code.ok).toBe(false)
+    if (code.ok) return
+    expect(code.error.message).toBe(
+      'getTaskNodeVersion: Task node returned error code 404',
+    )
+    expect(code.error.response).toBe(404)
+
+    respond({ error: 'no such task' })
+    const object = await client().getBasePath()
+    expect(object.ok).toBe(false)
+    if (object.ok) return
+    expect(object.error.details).toBe('no such task')
+    expect(object.error.response).toEqual({ error: 'no such task' })
+
+    respond('7')
+    const kind = await client().getRound()
+    expect(kind.ok).toBe(false)
+    if (kind.ok) return
+    expect(kind.error.message).toBe(
+      'getRound: Expected a number response but got string',
+    )
+  })
+
+  it('accepts distribution lists as objects or JSON text', async () => {
+    const list = { 'node-a': 10 }
+    const buffer = Buffer.from(JSON.stringify(list)).toJSON()
+    for (const response of [list, JSON.stringify(list), buffer]) {
+      respond(response)
+      expect(await client().getDistributionList('node-a', 3)).toEqual({
+        ok: true,
+        data: response,
+      })
+    }
+    respond(null)
+    const missing = await client().getDistributionList('node-a', 3)
+    expect(missing.ok).toBe(false)
+    if (missing.ok) return
+    expect(missing.error.message).toBe(
+      'getDistributionList: Expected a object or string response but got null',
+    )
+  })
+
+  it('reports HTTP failures with their status', async () => {
+    respond('unused', 204)
+    const unexpected = await client().getRound()
+    expect(unexpected.ok).toBe(false)
+    if (unexpected.ok) return
+    expect(unexpected.error.status).toBe(204)
+
+    vi.spyOn(axios, 'post').mockRejectedValue(
+      Object.assign(new Error('Request failed with status code 401'), {
+        response: { status: 401, data: 'Invalid secret' },
+      }),
+    )
+    const rejected = await client().getRound()
+    expect(rejected.ok).toBe(false)
+    if (rejected.ok) return
+    expect(rejected.error).toMatchObject({
+      action: 'getRound',
+      status: 401,
+      details: 'Invalid secret',
+      response: undefined,
+    })
+  })
+
+  it('counts calls by action and result', async () => {
+    const metrics = new MetricsRegistry()
+    respond(7)
+    await client(metrics).getRound()
+    respond({ error: 'not ready' })
+    await client(metrics).getRound()
+    await client(metrics).getRound()
+    const requests = metrics.counter('koii_task_node_requests_total', '')
+    expect(requests.get({ action: 'getRound', result: 'ok' })).toBe(1)
+    expect(requests.get({ action: 'getRound', result: 'error' })).toBe(2)
+  })
+})
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { AddressInfo } from 'net'
+import { Logger } from '../src/logger'
+import { parseDistributionList } from '../src/distributionCalculator'
+import { TaskNodeClient } from '../src/taskNodeClient'
+import type { TaskNodeEmulator } from '../src/taskNodeEmulator'
+import { hasWeb3 } from './web3'
+
+describe.skipIf(!hasWeb3)('TaskNodeEmulator', () => {
+  let emulator: TaskNodeEmulator
+  let port: number
+
+  const client = (secret = 'secret') =>
+    new TaskNodeClient({
+      baseUrl: `http://127.0.0.1:${port}/namespace-wrapper`,
+      taskId: 'task1',
+      secret,
+      logger: new Logger({ sinks: [] }),
+    })
+
+  beforeEach(async () => {
+    const { TaskNodeEmulator } = await import('../src/taskNodeEmulator')
+    emulator = new TaskNodeEmulator({
+      taskId: 'task1',
+      secret: 'secret',
+      autoAdvance: false,
+    })
+    const server = await emulator.listen(0)
+    port = (server.address() as AddressInfo).port
+  })
+
+  afterEach(async () => {
+    await emulator.close()
+  })
+
+  it('answers the task node protocol', async () => {
+    const taskNode = client()
+    expect(await taskNode.getRound()).toEqual({ ok: true, data: 0 })
+    expect(await taskNode.getTaskNodeVersion()).toEqual({
+      ok: true,
+      data: '1.11.19',
+    })
+
+    expect((await taskNode.checkSubmissionAndUpdateRound('cid-1', 0)).ok).toBe(
+      true,
+    )
+    const info = await taskNode.getTaskSubmissionInfo(0)
+    const submitter = emulator.submitterKeypair.publicKey.toBase58()
+    expect(info.ok && info.data.submissions[0][submitter]).toMatchObject({
+      submission_value: 'cid-1',
+      round: 0,
+    })
+
+    const list = { [submitter]: 10 }
+    expect(await taskNode.uploadDistributionList(list, 0)).toEqual({
+      ok: true,
+      data: true,
+    })
+    const uploaded = await taskNode.getDistributionList(submitter, 0)
+    expect(uploaded.ok && parseDistributionList(uploaded.data)).toEqual(list)
+  })
+
+  it('rejects unknown secrets and reports action errors', async () => {
+    const denied = await client('wrong').getRound()
+    expect(denied.ok).toBe(false)
+    if (!denied.ok) expect(denied.error.status).toBe(401)
+
+    const missing = await client().getDistributionList('node-x', 0)
+    expect(missing.ok).toBe(false)
+    if (!missing.ok) expect(missing.error.status).toBe(404)
+  })
+
+  it('fails to listen on a port in use', async () => {
+    const { TaskNodeEmulator } = await import('../src/taskNodeEmulator')
+    const second = new TaskNodeEmulator({ taskId: 'task1', secret: 'secret' })
+    await expect(second.listen(port)).rejects.toMatchObject({
+      code: 'EADDRINUSE',
+    })
+    await second.close()
+  })
+})
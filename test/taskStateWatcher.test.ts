@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { TaskStateWatcher, diffTaskState } from '../src/taskStateWatcher'
+import { LogRecord, Logger } from '../src/logger'
+import { TaskState } from '../src/types'
+
+function taskState(overrides: Partial<TaskState> = {}): TaskState {
+  return {
+    submissions: {},
+    submissions_audit_trigger: {},
+    distribution_rewards_submission: {},
+    distributions_audit_trigger: {},
+    distributions_audit_record: {},
+    stake_list: {},
+    is_active: true,
+    is_migrated: false,
+    migrated_to: '',
+    ...overrides,
+  } as TaskState
+}
+
+const submitted = taskState({
+  submissions: {
+    3: { 'node-a': { submission_value: 'cid', slot: 1, round: 3 } },
+  },
+  stake_list: { 'node-a': 2000 },
+})
+
+describe('diffTaskState', () => {
+  it('lists new submissions, stakes and payouts', () => {
+    const later = taskState({
+      ...submitted,
+      stake_list: { 'node-a': 1000, 'node-b': 500 },
+      distributions_audit_record: { 3: 'PayoutFailed' },
+    })
+    expect(diffTaskState(taskState(), submitted)).toEqual([
+      {
+        type: 'submission',
+        round: 3,
+        submitter: 'node-a',
+        submission: { submission_value: 'cid', slot: 1, round: 3 },
+      },
+      { type: 'stakeAdded', publicKey: 'node-a', previous: 0, current: 2000 },
+    ])
+    expect(diffTaskState(submitted, later)).toEqual([
+      { type: 'payout', round: 3, status: 'PayoutFailed', previous: null },
+      {
+        type: 'stakeRemoved',
+        publicKey: 'node-a',
+        previous: 2000,
+        current: 1000,
+      },
+      { type: 'stakeAdded', publicKey: 'node-b', previous: 0, current: 500 },
+    ])
+  })
+})
+
+describe('TaskStateWatcher', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('emits each change under its type', () => {
+    const watcher = new TaskStateWatcher(null)
+    const stakes: number[] = []
+    let submitter = ''
+    watcher.on('stakeAdded', (event) => stakes.push(event.current))
+    watcher.on('submission', (event) => (submitter = event.submitter))
+    watcher.update(taskState())
+    watcher.update(submitted)
+    expect(stakes).toEqual([2000])
+    expect(submitter).toBe('node-a')
+  })
+
+  it('keeps emitting after a listener throws', () => {
+    const watcher = new TaskStateWatcher(null)
+    const errors: unknown[] = []
+    const snapshots: TaskState[] = []
+    watcher.on('error', (error) => errors.push(error))
+    watcher.on('submission', () => {
+      throw new Error('listener failed')
+    })
+    watcher.on('snapshot', (state) => snapshots.push(state))
+    const stakes: string[] = []
+    watcher.on('stakeAdded', (event) => stakes.push(event.publicKey))
+    watcher.update(taskState())
+    watcher.update(submitted)
+    expect(errors).toEqual([new Error('listener failed')])
+    expect(stakes).toEqual(['node-a'])
+    expect(snapshots).toHaveLength(2)
+  })
+
+  it('keeps polling after an error with no error listener', async () => {
+    const records: LogRecord[] = []
+    const log = new Logger({
+      sinks: [{ write: (record) => records.push(record) }],
+    })
+    const getTaskState = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('RPC down'))
+      .mockResolvedValueOnce(taskState())
+      .mockResolvedValue(submitted)
+    // The source's logger is used when no logger option is given
+    const watcher = new TaskStateWatcher(
+      { getTaskState, log },
+      { interval: 1000 },
+    )
+    const submissions: number[] = []
+    watcher.on('submission', (event) => submissions.push(event.round))
+    await watcher.start()
+    expect(records).toContainEqual(
+      expect.objectContaining({
+        level: 'error',
+        msg: 'Task state watcher error',
+        error: expect.any(Error),
+      }),
+    )
+    await vi.advanceTimersByTimeAsync(2000)
+    watcher.stop()
+    expect(getTaskState).toHaveBeenCalledTimes(3)
+    expect(submissions).toEqual([3])
+  })
+})
@@ -0,0 +1,169 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { LogRecord, Logger } from '../src/logger'
+import {
+  ValidationOutcome,
+  ValidationTimeoutError,
+  runValidations,
+} from '../src/validationQueue'
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Validates after `ms[candidate]`, a candidate is valid unless it starts with 'bad'
+function validator(ms: Record<string, number> = {}) {
+  const running = { now: 0, max: 0 }
+  const validate = async (candidate: string) => {
+    running.max = Math.max(running.max, ++running.now)
+    await delay(ms[candidate] ?? 0)
+    running.now--
+    return !candidate.startsWith('bad')
+  }
+  return { validate, running }
+}
+
+const hang = () => new Promise<boolean>(() => {})
+
+let records: LogRecord[]
+let log: Logger
+
+beforeEach(() => {
+  records = []
+  log = new Logger({ sinks: [{ write: (record) => records.push(record) }] })
+})
+
+describe('runValidations', () => {
+  it('runs at most `concurrency` validations at once', async () => {
+    const { validate, running } = validator({ a: 10, b: 10, c: 10, d: 10 })
+    const outcomes = await runValidations(
+      ['a', 'b', 'c', 'd'],
+      validate,
+      async () => {},
+      { concurrency: 2 },
+    )
+    expect(running.max).toBe(2)
+    expect(outcomes.map((outcome) => outcome.status)).toEqual([
+      'valid',
+      'valid',
+      'valid',
+      'valid',
+    ])
+  })
+
+  it('reports outcomes in candidate order as soon as they can be', async () => {
+    const { validate } = validator({ slow: 30, bad: 0, fast: 0 })
+    const reported: string[] = []
+    const onResult = async (outcome: ValidationOutcome) => {
+      reported.push(`${outcome.candidate}:${outcome.vote}`)
+    }
+    await runValidations(['slow', 'bad', 'fast'], validate, onResult, {
+      concurrency: 3,
+    })
+    expect(reported).toEqual(['slow:true', 'bad:false', 'fast:true'])
+  })
+
+  it('keeps reporting after a failing report', async () => {
+    const { validate } = validator()
+    const reported: string[] = []
+    await runValidations(
+      ['a', 'b'],
+      validate,
+      async (outcome) => {
+        if (outcome.candidate === 'a') throw new Error('vote failed')
+        reported.push(outcome.candidate)
+      },
+      {},
+      log,
+    )
+    expect(reported).toEqual(['b'])
+    expect(records).toContainEqual(
+      expect.objectContaining({
+        level: 'error',
+        msg: 'Error handling validation outcome',
+        candidate: 'a',
+      }),
+    )
+  })
+
+  it('reports validator errors without a vote', async () => {
+    const [outcome] = await runValidations(
+      ['a'],
+      async () => {
+        throw new Error('broken')
+      },
+      async () => {},
+    )
+    expect(outcome).toMatchObject({
+      status: 'error',
+      error: new Error('broken'),
+    })
+    expect(outcome.vote).toBeUndefined()
+  })
+
+  it('skips a timed out candidate and aborts its signal', async () => {
+    let signal: AbortSignal | undefined
+    const [outcome] = await runValidations(
+      ['a'],
+      (candidate, abortSignal) => {
+        signal = abortSignal
+        return hang()
+      },
+      async () => {},
+      { timeout: 10 },
+      log,
+    )
+    expect(outcome).toMatchObject({
+      status: 'timeout',
+      vote: undefined,
+      attempts: 1,
+    })
+    expect(outcome.error).toBeInstanceOf(ValidationTimeoutError)
+    expect(signal?.aborted).toBe(true)
+    expect(records).toContainEqual(
+      expect.objectContaining({
+        level: 'warn',
+        msg: 'Validation of a timed out after 10ms',
+        attempt: 1,
+      }),
+    )
+  })
+
+  it('votes false on a timed out candidate when asked to', async () => {
+    const [outcome] = await runValidations(
+      ['a'],
+      hang,
+      async () => {},
+      { timeout: 10, onTimeout: 'voteFalse' },
+      log,
+    )
+    expect(outcome).toMatchObject({ status: 'timeout', vote: false })
+  })
+
+  it('retries a timed out candidate', async () => {
+    let calls = 0
+    const validate = async () => {
+      calls++
+      if (calls < 3) return hang()
+      return true
+    }
+    const [passed] = await runValidations(
+      ['a'],
+      validate,
+      async () => {},
+      { timeout: 10, onTimeout: 'retry', retries: 2 },
+      log,
+    )
+    expect(passed).toMatchObject({ status: 'valid', vote: true, attempts: 3 })
+
+    const [failed] = await runValidations(
+      ['a'],
+      hang,
+      async () => {},
+      { timeout: 10, onTimeout: 'retry' },
+      log,
+    )
+    expect(failed).toMatchObject({
+      status: 'timeout',
+      vote: undefined,
+      attempts: 2,
+    })
+  })
+})
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import {
+  errorMessage,
+  outcomeReport,
+  skippedReport,
+  voteAction,
+  voteReportKey,
+} from '../src/voteReport'
+
+describe('voteAction', () => {
+  it('raises an audit or joins the existing one', () => {
+    expect(voteAction(true, false)).toBe('none')
+    expect(voteAction(true, true)).toBe('votedTrue')
+    expect(voteAction(false, false)).toBe('raisedAudit')
+    expect(voteAction(false, true)).toBe('votedFalse')
+  })
+})
+
+describe('outcomeReport', () => {
+  const outcome = {
+    candidate: 'node-a',
+    attempts: 2,
+    durationMs: 40,
+  }
+
+  it('describes each validation status', () => {
+    expect(
+      outcomeReport('submission', 3, {
+        ...outcome,
+        status: 'invalid',
+        vote: false,
+      }),
+    ).toEqual({
+      round: 3,
+      kind: 'submission',
+      candidate: 'node-a',
+      sampled: true,
+      status: 'invalid',
+      isValid: false,
+      reason: 'validation failed',
+      action: 'none',
+      error: undefined,
+      attempts: 2,
+      durationMs: 40,
+    })
+    expect(
+      outcomeReport('distribution', 3, { ...outcome, status: 'timeout' })
+        .reason,
+    ).toBe('validation timed out after 2 attempt(s)')
+  })
+
+  it('keeps the error message and a given reason', () => {
+    const report = outcomeReport(
+      'submission',
+      3,
+      { ...outcome, status: 'error', error: new Error('IPFS down') },
+      'could not fetch the submission',
+    )
+    expect(report.error).toBe('IPFS down')
+    expect(report.reason).toBe('could not fetch the submission')
+    expect(report.isValid).toBeUndefined()
+  })
+})
+
+describe('skippedReport', () => {
+  it('reports a candidate that was not validated', () => {
+    expect(skippedReport('submission', 3, 'node-a', 'not sampled')).toEqual({
+      round: 3,
+      kind: 'submission',
+      candidate: 'node-a',
+      sampled: false,
+      status: 'skipped',
+      reason: 'not sampled',
+      action: 'none',
+      attempts: 0,
+      durationMs: 0,
+    })
+  })
+})
+
+describe('voteReportKey and errorMessage', () => {
+  it('keys reports by kind and round', () => {
+    expect(voteReportKey('distribution', 4)).toBe('voteReports:distribution:4')
+  })
+
+  it('reads messages from errors and anything thrown', () => {
+    expect(errorMessage(new Error('failed'))).toBe('failed')
+    expect(errorMessage('failed')).toBe('failed')
+  })
+})
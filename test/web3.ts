@@ -0,0 +1,10 @@
+// @_koii/web3.js is not on the public registry, so tests of the modules that
+// load it only run where it is installed
+export const hasWeb3 = (() => {
+  try {
+    require.resolve('@_koii/web3.js')
+    return true
+  } catch (e) {
+    return false
+  }
+})()